@@ -1,11 +1,31 @@
-import type { ReadStream } from 'node:fs';
+import { createReadStream, createWriteStream, type ReadStream } from 'node:fs';
+import { copyFile, mkdir, mkdtemp, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, extname, join, resolve, sep } from 'node:path';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage, ServerResponse } from 'node:http';
 import { getOr } from 'lodash/fp';
 import {
   S3Client,
   S3ClientConfig,
   GetObjectCommand,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  PutObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CopyObjectCommand,
+  UploadPartCopyCommand,
   DeleteObjectCommand,
   DeleteObjectCommandOutput,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  _Object,
   PutObjectCommandInput,
   ObjectCannedACL
 } from '@aws-sdk/client-s3';
@@ -24,6 +44,8 @@ declare namespace StrapiR2 {
     ext: string;
     mime: string;
     size: number;
+    width?: number | null;
+    height?: number | null;
     path?: string | null;
     buffer?: Buffer;
     stream?: ReadStream;
@@ -43,6 +65,247 @@ declare namespace StrapiR2 {
     [k: string]: any;
   }
 
+  /**
+   * A bucket entry with its own connection settings.
+   * Anything not set here falls back to the root provider options.
+   */
+  interface BucketOptions {
+    name: string;
+
+    // Legacy style:
+    accessKeyId?: AwsCredentialIdentity['accessKeyId'];
+    secretAccessKey?: AwsCredentialIdentity['secretAccessKey'];
+
+    // Preferred:
+    credentials?: AwsCredentialIdentity;
+
+    endpoint?: string; // e.g. another account or "https://<accountid>.eu.r2.cloudflarestorage.com"
+    region?: string;
+    acl?: ObjectCannedACL | string;
+
+    maxFileSize?: number; // bytes, enforced by checkFileSize()
+    policy?: UploadPolicy;
+
+    keyTemplate?: string; // e.g. "{yyyy}/{mm}/{hash}{ext}", overrides the root keyTemplate
+    contentAddressed?: boolean; // key by SHA-256 of the content and skip existing objects; the root keyTemplate is ignored
+    multipart?: MultipartOptions; // merged over the root multipart options
+    versions?: VersioningOptions | false; // overrides the root versions option
+    trash?: TrashOptions | false; // overrides the root trash option
+    tokenAuth?: TokenAuthOptions; // private bucket served from a custom domain with HMAC tokens
+    imageResizing?: ImageResizingOptions; // Cloudflare Image Resizing on the public domain
+    headers?: HeaderOptions; // applied over the root headers
+    metadataFields?: Record<string, string>; // merged over the root metadataFields
+    checksum?: ChecksumAlgorithm | false; // overrides the root checksum
+    encryption?: EncryptionOptions; // SSE-C, private buckets only
+    quota?: QuotaOptions; // checked before every upload
+
+    [k: string]: any;
+  }
+
+  interface QuotaLimits {
+    maxBytes?: number;
+    maxObjects?: number;
+  }
+
+  interface QuotaOptions extends QuotaLimits {
+    prefixes?: Record<string, QuotaLimits>; // key prefix (rootPath included) -> limits, e.g. { "company/123/": { maxBytes: 5e9 } }
+  }
+
+  interface Usage {
+    objects: number;
+    bytes: number;
+    updatedAt?: number; // ms, set when the totals were listed
+  }
+
+  /**
+   * Keeps the totals quotas are checked against, per bucket key and prefix ("" = whole bucket).
+   * Totals are listed when missing or older than usage.maxAge, and adjusted after uploads, deletes and moves.
+   */
+  interface UsageStore {
+    get(bucket: string, prefix: string): Usage | undefined | Promise<Usage | undefined>;
+    set(bucket: string, prefix: string, usage: Usage): void | Promise<void>;
+    increment(bucket: string, prefix: string, delta: { objects: number; bytes: number }): void | Promise<void>; // negative on deletes; should ignore unknown entries
+  }
+
+  interface UsageOptions {
+    store?: UsageStore; // default: in memory, per process
+    maxAge?: number; // seconds before totals are listed again, default 900
+  }
+
+  /**
+   * SSE-C: R2 encrypts objects with a key sent on every request and does not store it.
+   */
+  interface EncryptionOptions {
+    keys: Record<string, string>; // key ID -> base64-encoded 256-bit key
+    activeKeyId: string; // used for new objects; other IDs stay readable until rotated away
+  }
+
+  /**
+   * Headers stored with each uploaded object.
+   */
+  interface ObjectHeaders {
+    cacheControl?: string; // e.g. "public, max-age=31536000, immutable"
+    contentDisposition?: 'inline' | 'attachment'; // filename taken from file.name
+    contentLanguage?: string;
+  }
+
+  type ChecksumAlgorithm = 'SHA256' | 'CRC32C';
+
+  type Operation = 'upload' | 'delete' | 'move';
+
+  /**
+   * Passed to the lifecycle hooks, one per object.
+   */
+  interface OperationEvent {
+    operation: Operation;
+    bucket: string;
+    key: string;
+    file?: File;
+    from?: { bucket: string; key: string }; // move() source
+    bytes?: number;
+    durationMs?: number; // after* and onError only
+    outcome?: 'success' | 'error';
+    error?: Error;
+  }
+
+  /**
+   * before* hooks may throw to cancel the operation. Errors in after* and onError are logged and ignored.
+   */
+  interface Hooks {
+    beforeUpload?: (event: OperationEvent) => void | Promise<void>;
+    afterUpload?: (event: OperationEvent) => void | Promise<void>;
+    beforeDelete?: (event: OperationEvent) => void | Promise<void>;
+    afterDelete?: (event: OperationEvent) => void | Promise<void>;
+    afterMove?: (event: OperationEvent) => void | Promise<void>;
+    onError?: (event: OperationEvent) => void | Promise<void>;
+  }
+
+  type MetricTags = { operation: Operation; bucket: string; outcome: 'success' | 'error' };
+
+  /**
+   * Adapter for Prometheus, StatsD, OpenTelemetry, …
+   * Emits r2_operations_total (counter), r2_operation_duration_ms and r2_upload_bytes (histograms).
+   */
+  interface Metrics {
+    increment(name: string, value: number, tags: MetricTags): void;
+    observe(name: string, value: number, tags: MetricTags): void;
+  }
+
+  /**
+   * Where the current caller may write. Keys get `prefix` after rootPath and cannot leave it.
+   */
+  interface TenantScope {
+    prefix: string; // e.g. "company/123"
+    buckets?: string[]; // logical bucket keys the tenant may write to, default all
+    quota?: QuotaLimits; // per bucket, for everything below prefix
+  }
+
+  /**
+   * Called for every upload, move and replace. Return null for trusted callers (no restriction),
+   * throw to reject the request.
+   */
+  type TenantResolver = (
+    file: File,
+    context: { operation: 'upload' | 'move' | 'replace' }
+  ) => TenantScope | null | undefined | Promise<TenantScope | null | undefined>;
+
+  /**
+   * What verify() found for one variant.
+   */
+  interface VerifyReport {
+    ok: boolean;
+    variants: Array<{
+      label: string;
+      bucket?: string;
+      key?: string;
+      status: 'ok' | 'missing' | 'unrecorded' | 'size-mismatch' | 'etag-mismatch' | 'checksum-mismatch';
+      expected?: string | number;
+      actual?: string | number;
+    }>;
+  }
+
+  /**
+   * Header defaults plus overrides per MIME type (exact or wildcard, e.g. "image/*").
+   * All matching byMime entries apply, in order.
+   */
+  interface HeaderOptions extends ObjectHeaders {
+    byMime?: Record<string, ObjectHeaders>;
+  }
+
+  /**
+   * What a bucket accepts. Checked in uploadCore before anything reaches R2.
+   */
+  interface UploadPolicy {
+    allowedMimeTypes?: string[]; // exact or wildcard, e.g. "image/*"
+    allowedExtensions?: string[]; // e.g. ".pdf" or "pdf"
+    minSize?: number; // bytes
+    maxSize?: number; // bytes
+    allowSvg?: boolean; // default false
+    allowHtml?: boolean; // default false
+    sniffContent?: boolean; // compare the first bytes with the declared type, default true
+  }
+
+  /**
+   * Declarative routing rule. All given conditions must match; the first matching rule wins.
+   */
+  interface UploadRoute {
+    bucket: string;
+    folder?: string;
+    mime?: string | string[]; // exact or wildcard, e.g. "video/*"
+    ext?: string | string[]; // e.g. ".pdf"
+    minSize?: number; // bytes
+    maxSize?: number; // bytes
+    folderPath?: string | RegExp; // Strapi media library folder path (prefix match for strings)
+    match?: (file: File) => boolean;
+  }
+
+  /**
+   * Routing function: return a bucket (and optional folder) or nothing to fall through.
+   */
+  type UploadRouteFn = (file: File) => { bucket: string; folder?: string } | null | undefined | void;
+
+  /**
+   * Tuning for @aws-sdk/lib-storage multipart uploads.
+   */
+  interface MultipartOptions {
+    partSize?: number; // bytes, min 5 MiB, default 5 MiB
+    queueSize?: number; // parts uploaded in parallel, default 4
+    leavePartsOnError?: boolean; // keep uploaded parts for manual recovery, default false
+  }
+
+  interface UploadProgress {
+    file: string;
+    bucket: string;
+    key: string;
+    loaded?: number; // bytes
+    total?: number; // bytes, unknown for streams without a length
+    part?: number;
+  }
+
+  /**
+   * Per-call options for upload() / uploadStream(). Strapi itself never passes these.
+   */
+  interface UploadOptions {
+    signal?: AbortSignal;
+    onProgress?: (progress: UploadProgress) => void;
+  }
+
+  // Either the plain bucket name or a full bucket entry
+  type BucketEntry = string | BucketOptions;
+
+  /**
+   * Bucket entry merged with the root options.
+   */
+  interface ResolvedBucket {
+    key: string;
+    name: string;
+    endpoint?: string;
+    region: string;
+    credentials?: AwsCredentialIdentity;
+    acl?: ObjectCannedACL | string;
+    options: BucketOptions;
+  }
+
   /**
    * All S3 client options plus our shared params.
    * (This mirrors Strapi's DefaultOptions type.)
@@ -58,16 +321,312 @@ declare namespace StrapiR2 {
     params?: AWSParams;
 
     // Our extras:
-    buckets?: Record<string, string>;
+    buckets?: Record<string, BucketEntry>;
     publicDomains?: Record<string, string>;
     defaultBucket?: string;
+    routes?: Array<UploadRoute | UploadRouteFn>;
     pool?: boolean;
+    keyTemplate?: string;
+    multipart?: MultipartOptions;
+    versions?: VersioningOptions;
+    trash?: TrashOptions;
 
     signedUrlExpires?: number; // seconds, default 3600
+    directUploadSecret?: string; // signs direct upload tokens, random per process if omitted
+    signedUrlCache?: boolean | SignedUrlCacheOptions; // default enabled
+    concurrency?: number; // parallel object operations in move() etc., default 4
+    headers?: HeaderOptions;
+    metadataFields?: Record<string, string>; // x-amz-meta-<name> -> Strapi file field, e.g. { alt: "alternativeText" }
+    checksum?: ChecksumAlgorithm | false; // send and record a checksum on upload, default false
+    hooks?: Hooks;
+    metrics?: Metrics;
+    tenant?: TenantResolver;
+    usage?: UsageOptions;
+    driver?: 's3' | 'local' | StorageDriver; // default "s3"
+    local?: LocalDriverOptions; // required for driver "local"
+    // logger (debug/info/warn/error, e.g. strapi.log) is used by the provider, not passed to the S3 client
 
     [k: string]: any;
   }
 
+  /**
+   * A file the browser is about to upload straight to R2.
+   */
+  interface DirectUploadRequest {
+    name: string;
+    mime: string;
+    size: number; // bytes (unlike File.size, which Strapi stores in KB)
+    ext?: string; // derived from name if omitted
+    hash?: string; // generated like Strapi does if omitted
+    path?: string | null; // e.g. "bucket:videos:courses/12"
+    [key: string]: any;
+  }
+
+  interface DirectUploadOptions {
+    expiresIn?: number; // seconds, defaults to signedUrlExpires
+    multipart?: boolean; // default: only when size exceeds partSize
+    partSize?: number; // bytes, default 10 MiB (min 5 MiB)
+  }
+
+  interface DirectUpload {
+    token: string; // pass back to finalizeDirectUpload() / abortDirectUpload()
+    bucket: string;
+    key: string;
+    name: string;
+    hash: string;
+    ext: string;
+    mime: string;
+    size: number; // bytes
+    expiresIn: number;
+    // Single PUT
+    url?: string;
+    headers?: Record<string, string>;
+    // Multipart
+    uploadId?: string;
+    partSize?: number;
+    parts?: Array<{ partNumber: number; url: string }>;
+  }
+
+  interface DirectUploadCompletion {
+    token: string; // from createDirectUpload()
+    parts?: Array<{ partNumber: number; etag: string }>; // ETag response header of each part PUT
+  }
+
+  /**
+   * What a direct upload token vouches for. Only the server can issue one.
+   */
+  interface DirectUploadDescriptor {
+    bucket: string;
+    key: string;
+    name: string;
+    hash: string;
+    ext: string;
+    mime: string;
+    size: number; // declared bytes
+    exp: number; // unix seconds; finalize/abort refuse the token afterwards
+    uploadId?: string;
+    nonce: string; // stored as x-amz-meta-direct-upload on the object
+  }
+
+  /**
+   * Keep the previous content when replace() overwrites a file.
+   */
+  interface VersioningOptions {
+    bucket?: string; // logical bucket for version copies, default: the file's own bucket
+    prefix?: string; // default "_versions"
+    maxVersions?: number; // oldest versions beyond this are deleted, default unlimited
+  }
+
+  /**
+   * HMAC token URLs on a custom domain, verified by Cloudflare WAF token auth or a Worker.
+   *
+   * - "expiry" (default): ?exp=<unix seconds>&token=<base64url HMAC-SHA256(secret, path + ":" + exp)>
+   * - "cloudflare-waf": ?verify=<unix seconds>-<base64 HMAC-SHA256(secret, path + timestamp)>,
+   *   the format checked by is_timed_hmac_valid_v0() (the rule enforces the lifetime)
+   */
+  interface TokenAuthOptions {
+    domain: string; // e.g. "https://private.example.com"
+    secret: string;
+    expiresIn?: number; // seconds, defaults to signedUrlExpires
+    format?: 'expiry' | 'cloudflare-waf';
+    param?: string; // token query parameter, default "token" / "verify"
+  }
+
+  /**
+   * Cloudflare Image Resizing options (/cdn-cgi/image/<options>/<key>).
+   */
+  interface TransformOptions {
+    width?: number;
+    height?: number;
+    dpr?: number; // 1-10
+    quality?: number; // 1-100
+    fit?: 'scale-down' | 'contain' | 'cover' | 'crop' | 'pad';
+    format?: 'auto' | 'avif' | 'webp' | 'jpeg' | 'png' | 'json';
+    gravity?: 'auto' | 'face' | 'left' | 'right' | 'top' | 'bottom';
+    sharpen?: number; // 0-10
+    blur?: number; // 1-250
+    rotate?: 0 | 90 | 180 | 270;
+    metadata?: 'keep' | 'copyright' | 'none';
+  }
+
+  interface ImageResizingOptions {
+    defaults?: TransformOptions; // merged under every transform, e.g. { format: "auto" }
+    // Do not upload Strapi's generated formats; point them at transform URLs of the original
+    synthesizeFormats?: boolean;
+    formats?: string[]; // Strapi format names, default thumbnail/small/medium/large
+  }
+
+  interface VerifyTokenOptions {
+    format?: 'expiry' | 'cloudflare-waf';
+    param?: string;
+    maxAge?: number; // seconds, required for "cloudflare-waf" (issue time + maxAge), tokens are rejected without it
+    now?: number; // unix seconds, for tests
+  }
+
+  /**
+   * Soft delete: delete() moves objects here instead of removing them.
+   */
+  interface TrashOptions {
+    bucket?: string; // logical bucket for trashed objects, default: the file's own bucket
+    prefix?: string; // default "_trash"
+    retentionDays?: number; // default age for purgeTrash(), default 30
+  }
+
+  interface VersionVariant {
+    bucket: string;
+    key: string; // where the version copy lives
+    originalKey: string; // where the variant lived before it was replaced
+    sseKeyId?: string; // SSE-C key of the version copy
+  }
+
+  /**
+   * Stored in provider_metadata.versions, newest last.
+   */
+  interface FileVersion {
+    id: string;
+    createdAt: string;
+    file: {
+      name: string;
+      hash: string;
+      ext: string;
+      mime: string;
+      size: number;
+      width?: number | null;
+      height?: number | null;
+    };
+    original: VersionVariant;
+    formats: Record<string, VersionVariant & { format: Record<string, any> }>;
+  }
+
+  /**
+   * Options for signed GET URLs.
+   */
+  interface SignedUrlOptions {
+    expiresIn?: number; // seconds, defaults to signedUrlExpires
+    download?: boolean | string; // attachment with file.name (or the given file name)
+    responseContentDisposition?: string;
+    responseContentType?: string;
+    responseCacheControl?: string;
+    cache?: boolean; // reuse a cached URL, default true
+  }
+
+  interface SignedUrlCacheOptions {
+    maxEntries?: number; // default 1000
+    minRemaining?: number; // seconds a cached URL must still be valid for, default 20% of expiresIn
+  }
+
+  interface ReconcileOptions {
+    mode?: 'dry-run' | 'delete'; // default "dry-run"
+    buckets?: string[]; // logical bucket keys, default all
+    minAge?: number; // seconds; younger objects are never treated as orphans, default 3600
+  }
+
+  interface ReconcileReport {
+    scanned: number;
+    orphans: Array<{ bucket: string; key: string; size?: number; lastModified?: Date }>;
+    missing: Array<{ bucket: string; key: string; label?: string }>;
+    skipped: number; // objects younger than minAge
+    deleted: number;
+    errors: Array<{ bucket?: string; key?: string; message: string }>;
+  }
+
+  interface MigrationOptions {
+    legacyDomains?: Record<string, string>; // old public URL prefix -> logical bucket key
+    verify?: boolean; // HEAD the resolved object, default true
+    relocate?: boolean; // copy objects to where upload() would put them now, default false
+    deleteSource?: boolean; // with relocate: remove the old objects afterwards, default false
+    force?: boolean; // also process variants that already have provider_metadata.bucket/key
+  }
+
+  interface MigrationResult {
+    file: File;
+    success: boolean;
+    variants: Array<{
+      label: string;
+      bucket?: string;
+      key?: string;
+      relocatedTo?: { bucket: string; key: string };
+      skipped?: boolean;
+      error?: string;
+    }>;
+  }
+
+  /**
+   * Outcome for one file of a batch operation. Batch methods never reject for a single file.
+   */
+  interface BatchResult {
+    file: File;
+    success: boolean;
+    errors?: Array<{ key?: string; message: string }>;
+  }
+
+  /**
+   * What a HEAD returns, whichever driver stores the object.
+   */
+  type StoredObject = Pick<
+    HeadObjectCommandOutput,
+    | 'ContentLength'
+    | 'ContentType'
+    | 'ETag'
+    | 'LastModified'
+    | 'CacheControl'
+    | 'ContentDisposition'
+    | 'ContentLanguage'
+    | 'Metadata'
+    | 'ChecksumSHA256'
+    | 'ChecksumCRC32C'
+    | 'ChecksumType'
+  >;
+
+  type SseKey = { key: string } | null;
+
+  /**
+   * Object storage behind the provider: R2/S3 ("s3"), a local directory ("local") or your own.
+   * Keys are full object keys (rootPath included). Missing objects must fail like S3 does
+   * (error name "NotFound"/"NoSuchKey" or `$metadata.httpStatusCode` 404); head() returns null instead.
+   */
+  interface StorageDriver {
+    name: string;
+    upload(
+      bucket: ResolvedBucket,
+      params: PutObjectCommandInput,
+      options: {
+        multipart: MultipartOptions;
+        signal?: AbortSignal;
+        onProgress?: (progress: { loaded?: number; total?: number; part?: number }) => void;
+      }
+    ): Promise<{ ETag?: string }>;
+    head(bucket: ResolvedBucket, key: string, options?: { sse?: SseKey; checksums?: boolean }): Promise<StoredObject | null>;
+    get(bucket: ResolvedBucket, key: string, options?: { sse?: SseKey }): Promise<StoredObject & { Body: Readable }>;
+    copy(
+      from: { bucket: ResolvedBucket; key: string },
+      to: { bucket: ResolvedBucket; key: string },
+      options?: { sourceSse?: SseKey; targetSse?: SseKey; metadata?: Record<string, string> }
+    ): Promise<void>;
+    delete(bucket: ResolvedBucket, key: string, params?: Record<string, any>): Promise<DeleteObjectCommandOutput>;
+    deleteMany(bucket: ResolvedBucket, keys: string[]): Promise<Array<{ key: string; message: string }>>; // failed keys, at most 1000 keys per call
+    list(bucket: ResolvedBucket, prefix?: string): AsyncIterable<_Object>;
+    signGetUrl(
+      bucket: ResolvedBucket,
+      key: string,
+      options: {
+        expiresIn: number;
+        sse?: SseKey;
+        responseContentDisposition?: string;
+        responseContentType?: string;
+        responseCacheControl?: string;
+      }
+    ): Promise<string>;
+    client?(bucket: ResolvedBucket): S3Client; // S3 only: needed for direct uploads
+  }
+
+  interface LocalDriverOptions {
+    root: string; // one directory per bucket below this
+    baseUrl: string; // where handleLocalRequest() is mounted, e.g. "http://localhost:1337/r2-local"
+    secret: string; // signs private URLs (HMAC over path, expiry and response-* overrides)
+    directories?: Record<string, string>; // bucket key -> directory (relative to root), default the bucket name
+  }
+
   // We support both legacy + s3Options, like @strapi/provider-upload-aws-s3
   type InitOptions =
     | (DefaultOptions | { s3Options: DefaultOptions }) & {
@@ -77,6 +636,59 @@ declare namespace StrapiR2 {
     };
 }
 
+// ─────────────────────────────────────────────────────────────
+// Errors
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Shaped like Strapi's PayloadTooLargeError (HTTP 413) so the error
+ * middleware returns it to the client instead of a generic 500.
+ */
+class PayloadTooLargeError extends Error {
+  name = 'PayloadTooLargeError';
+  status = 413;
+  statusCode = 413;
+  expose = true;
+  details: Record<string, any>;
+
+  constructor(message: string, details: Record<string, any> = {}) {
+    super(message);
+    this.details = details;
+  }
+}
+
+/**
+ * Shaped like Strapi's ValidationError (HTTP 400).
+ */
+class UploadPolicyError extends Error {
+  name = 'ValidationError';
+  status = 400;
+  statusCode = 400;
+  expose = true;
+  details: Record<string, any>;
+
+  constructor(message: string, details: Record<string, any> = {}) {
+    super(message);
+    this.details = details;
+  }
+}
+
+/**
+ * Shaped like Strapi's ForbiddenError (HTTP 403).
+ */
+class TenantAccessError extends Error {
+  name = 'ForbiddenError';
+  status = 403;
+  statusCode = 403;
+  expose = true;
+  details: Record<string, any>;
+
+  constructor(message: string, details: Record<string, any> = {}) {
+    super(message);
+    this.details = details;
+  }
+}
+
 // ─────────────────────────────────────────────────────────────
 // Small helpers
 // ─────────────────────────────────────────────────────────────
@@ -87,6 +699,78 @@ const trimSlash = (value?: string | null): string =>
 const trimLeadingSlash = (value?: string | null): string =>
   (value || '').replace(/^\/+/, '');
 
+// Strapi stores file.size in kilobytes (1 KB = 1000 bytes)
+const kbytesToBytes = (kbytes: number): number => kbytes * 1000;
+
+const bytesToHumanReadable = (bytes: number): string => {
+  const units = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  if (bytes === 0) return '0 Bytes';
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(1000)), units.length - 1);
+  return `${Math.round(bytes / 1000 ** i)} ${units[i]}`;
+};
+
+const matchesMime = (mime: string, patterns: string[]): boolean => {
+  const value = (mime || '').toLowerCase();
+  return patterns.some((pattern) => {
+    const p = pattern.toLowerCase();
+    return p.endsWith('*') ? value.startsWith(p.slice(0, -1)) : value === p;
+  });
+};
+
+const normalizeExt = (ext?: string | null): string =>
+  (ext || '').toLowerCase().replace(/^\.?/, '.');
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '');
+
+/**
+ * Run `fn` over `items` with at most `limit` promises in flight. Results keep input order.
+ * Rejects with the first error, after all started work has settled.
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (err) {
+        if (!failed) {
+          failed = true;
+          firstError = err;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  if (failed) throw firstError;
+  return results;
+};
+
+/**
+ * CopySource must be URL-encoded ("bucket/key"), keeping the slashes.
+ */
+const encodeCopySource = (bucketName: string, key: string): string =>
+  `${bucketName}/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+const isNotFoundError = (err: any): boolean =>
+  err?.name === 'NotFound' ||
+  err?.name === 'NoSuchKey' ||
+  err?.$metadata?.httpStatusCode === 404;
+
 /**
  * Parse bucket from path if it's in the format "bucket:NAME:rest/of/path"
  */
@@ -101,6 +785,29 @@ const parseBucketFromPath = (path?: string | null) => {
   };
 };
 
+/**
+ * Clean up a client-supplied folder: backslashes count as separators, empty segments are dropped.
+ * "." / ".." segments and control characters are rejected.
+ */
+const normalizeFolder = (path?: string | null): string => {
+  const segments = String(path || '').split(/[\\/]+/).filter(Boolean);
+  if (segments.some((segment) => segment === '.' || segment === '..' || /[\u0000-\u001f\u007f]/.test(segment))) {
+    throw new UploadPolicyError(`Invalid folder '${path}': '.', '..' and control characters are not allowed.`, { path });
+  }
+  return segments.join('/');
+};
+
+/**
+ * A client-supplied hash/extension must stay inside the last key segment.
+ */
+const assertFileNamePart = (field: 'hash' | 'ext', value: string, fileName = value) => {
+  if (/[\\/\u0000-\u001f\u007f]/.test(value) || fileName === '.' || fileName === '..') {
+    throw new UploadPolicyError(`Invalid ${field} '${value}': '/', '\\', '.', '..' and control characters are not allowed.`, {
+      [field]: value
+    });
+  }
+};
+
 const extractCredentials = (options: StrapiR2.InitOptions): AwsCredentialIdentity | null => {
   // Prefer s3Options.credentials if present
   if ('s3Options' in options && options.s3Options?.credentials) {
@@ -156,7 +863,10 @@ const getConfig = (initOptions: StrapiR2.InitOptions): StrapiR2.DefaultOptions =
   // Reasonable defaults for our advanced options
   config.buckets = config.buckets || {};
   config.publicDomains = config.publicDomains || {};
-  config.defaultBucket = config.defaultBucket || 'public';
+  // "public" when such a bucket exists; otherwise uploads fall back to the first bucket
+  if (!config.defaultBucket && config.buckets.public) {
+    config.defaultBucket = 'public';
+  }
   config.signedUrlExpires = config.signedUrlExpires || 3600;
 
   // Ensure region exists for AWS SDK v3 (Cloudflare R2 ignores region)
@@ -164,151 +874,2716 @@ const getConfig = (initOptions: StrapiR2.InitOptions): StrapiR2.DefaultOptions =
     config.region = "auto";
   }
 
+  // R2 does not support the SDK's default CRC32 checksums; they also break presigned PUT URLs
+  if (!config.requestChecksumCalculation) {
+    config.requestChecksumCalculation = "WHEN_REQUIRED";
+  }
+  if (!config.responseChecksumValidation) {
+    config.responseChecksumValidation = "WHEN_REQUIRED";
+  }
+
   return config;
 };
 
 /**
- * Resolve the bucket to use for a file.
+ * Merge a bucket entry with the root options. Returns null for unknown keys.
  */
-const getBucketInfo = (
-  file: StrapiR2.File,
-  config: StrapiR2.DefaultOptions
-): { bucketKey: string; bucketName: string } => {
-  const buckets = config.buckets || {};
+const resolveBucket = (
+  config: StrapiR2.DefaultOptions,
+  bucketKey: string
+): StrapiR2.ResolvedBucket | null => {
+  const entry = config.buckets?.[bucketKey];
+  if (!entry) return null;
 
-  // 1) Check path for `bucket:KEY:...`
-  const pathInfo = parseBucketFromPath(file.path || undefined);
-  if (pathInfo && pathInfo.bucketKey && buckets[pathInfo.bucketKey]) {
-    return {
-      bucketKey: pathInfo.bucketKey,
-      bucketName: buckets[pathInfo.bucketKey]
-    };
-  }
+  const options: StrapiR2.BucketOptions = typeof entry === 'string' ? { name: entry } : entry;
+  if (!options.name) return null;
 
-  // 2) Default bucket
-  if (config.defaultBucket && buckets[config.defaultBucket]) {
-    return {
-      bucketKey: config.defaultBucket,
-      bucketName: buckets[config.defaultBucket]
+  let credentials = config.credentials as AwsCredentialIdentity | undefined;
+  if (options.credentials) {
+    credentials = options.credentials;
+  } else if (options.accessKeyId && options.secretAccessKey) {
+    credentials = {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey
     };
   }
 
-  // 3) First available bucket
-  const availableBuckets = Object.keys(buckets);
-  if (availableBuckets.length > 0) {
-    const first = availableBuckets[0];
-    return {
-      bucketKey: first,
-      bucketName: buckets[first]
-    };
-  }
+  return {
+    key: bucketKey,
+    name: options.name,
+    endpoint: options.endpoint || (config.endpoint as string | undefined),
+    region: options.region || (config.region as string) || 'auto',
+    credentials,
+    acl: options.acl || config.params?.ACL,
+    options
+  };
+};
+
+/**
+ * Buckets sharing endpoint, region and access key share one S3 client.
+ */
+const getConnectionId = (bucket: StrapiR2.ResolvedBucket): string =>
+  [bucket.endpoint || '', bucket.region, bucket.credentials?.accessKeyId || ''].join('|');
+
+/**
+ * A bucket is public if (and only if) it has an entry in publicDomains.
+ */
+const isPrivateBucket = (config: StrapiR2.DefaultOptions, bucketKey: string): boolean =>
+  !config.publicDomains?.[bucketKey];
+
+const toList = <T>(value?: T | T[]): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const matchesRoute = (file: StrapiR2.File, route: StrapiR2.UploadRoute): boolean => {
+  if (route.mime !== undefined && !matchesMime(file.mime, toList(route.mime))) return false;
+
+  if (route.ext !== undefined) {
+    const exts = toList(route.ext).map(normalizeExt);
+    if (!exts.includes(normalizeExt(file.ext))) return false;
+  }
+
+  const size = kbytesToBytes(file.size || 0);
+  if (route.minSize !== undefined && size < route.minSize) return false;
+  if (route.maxSize !== undefined && size > route.maxSize) return false;
+
+  if (route.folderPath !== undefined) {
+    const folderPath = String(file.folderPath || '/');
+    const matches =
+      route.folderPath instanceof RegExp
+        ? route.folderPath.test(folderPath)
+        : folderPath.startsWith(route.folderPath);
+    if (!matches) return false;
+  }
+
+  if (route.match && !route.match(file)) return false;
+
+  return true;
+};
+
+/**
+ * Evaluate providerOptions.routes in order. Returns null if nothing matched.
+ */
+const resolveRoute = (
+  file: StrapiR2.File,
+  config: StrapiR2.DefaultOptions
+): { bucket: string; folder?: string } | null => {
+  for (const route of config.routes || []) {
+    const result =
+      typeof route === 'function'
+        ? route(file)
+        : matchesRoute(file, route)
+          ? { bucket: route.bucket, folder: route.folder }
+          : null;
+
+    if (!result) continue;
+
+    if (!resolveBucket(config, result.bucket)) {
+      throw new Error(
+        `[strapi-provider-cloudflare-r2-advanced] Route resolved to unknown bucket '${result.bucket}'.`
+      );
+    }
+    return result;
+  }
+
+  return null;
+};
+
+/**
+ * Resolve the bucket to use for a file.
+ * `folder` is set when a route decided the destination folder.
+ */
+const getBucketInfo = (
+  file: StrapiR2.File,
+  config: StrapiR2.DefaultOptions
+): { bucketKey: string; bucketName: string; folder?: string } => {
+  const buckets = config.buckets || {};
+
+  // 1) Check path for `bucket:KEY:...`
+  const pathInfo = parseBucketFromPath(file.path || undefined);
+  const fromPath = pathInfo && pathInfo.bucketKey ? resolveBucket(config, pathInfo.bucketKey) : null;
+  if (fromPath) {
+    return {
+      bucketKey: fromPath.key,
+      bucketName: fromPath.name
+    };
+  }
+
+  // 2) Routing table
+  const route = resolveRoute(file, config);
+  if (route) {
+    return {
+      bucketKey: route.bucket,
+      bucketName: resolveBucket(config, route.bucket)!.name,
+      folder: route.folder
+    };
+  }
+
+  // 3) Default bucket
+  const fromDefault = config.defaultBucket ? resolveBucket(config, config.defaultBucket) : null;
+  if (fromDefault) {
+    return {
+      bucketKey: fromDefault.key,
+      bucketName: fromDefault.name
+    };
+  }
+
+  // 4) First available bucket
+  for (const first of Object.keys(buckets)) {
+    const bucket = resolveBucket(config, first);
+    if (bucket) {
+      return {
+        bucketKey: bucket.key,
+        bucketName: bucket.name
+      };
+    }
+  }
 
   throw new Error('[strapi-provider-cloudflare-r2-advanced] No bucket configured.');
 };
 
+interface KeyContext {
+  routeFolder?: string; // folder chosen by a route, replaces file.path
+  tenantPrefix?: string; // "company/123/", goes before the rendered key
+  template?: string;
+  sha256?: string;
+  now?: Date;
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Same shape as Strapi's generated hashes: "<slugified-name>_<random>".
+ */
+const generateFileHash = (name: string): string => {
+  const baseName = slugify((name || '').replace(/\.[^.]*$/, '')) || 'file';
+  return `${baseName}_${randomBytes(5).toString('hex')}`;
+};
+
+const DEFAULT_PART_SIZE = 10 * 1024 * 1024;
+const MAX_COPY_OBJECT_SIZE = 5 * 1024 * 1024 * 1024; // single CopyObject limit
+const COPY_PART_SIZE = 512 * 1024 * 1024;
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+/**
+ * Fill a key template. Unknown tokens are left as-is so typos are visible in the bucket.
+ */
+const renderKeyTemplate = (
+  template: string,
+  file: StrapiR2.File,
+  folder: string,
+  context: KeyContext
+): string => {
+  const now = context.now || new Date();
+  const baseName = (file.name || '').replace(/\.[^.]*$/, '');
+  const tokens: Record<string, string> = {
+    folder,
+    name: slugify(baseName) || file.hash,
+    hash: file.hash,
+    ext: file.ext || '',
+    sha256: context.sha256 || '',
+    yyyy: String(now.getUTCFullYear()),
+    mm: pad2(now.getUTCMonth() + 1),
+    dd: pad2(now.getUTCDate())
+  };
+
+  return template
+    .replace(/\{(\w+)\}/g, (match, token) => (token in tokens ? tokens[token] : match))
+    .replace(/\/{2,}/g, '/')
+    .replace(/^\/+/, '');
+};
+
+/**
+ * The original and every format (thumbnail, small, …) that carry provider_metadata.
+ */
+const getFileVariants = (
+  file: StrapiR2.File
+): Array<{ label: string; meta: NonNullable<StrapiR2.File['provider_metadata']>; target: any }> => {
+  const variants: Array<{ label: string; meta: any; target: any }> = [];
+
+  if (file.provider_metadata) {
+    variants.push({ label: 'original', meta: file.provider_metadata, target: file });
+  }
+
+  if (file.formats && typeof file.formats === 'object') {
+    for (const formatKey of Object.keys(file.formats)) {
+      const fmt = file.formats[formatKey];
+      // Synthesized formats are transform URLs of the original, there is no object behind them
+      if (fmt?.provider_metadata && !fmt.provider_metadata.synthesized) {
+        variants.push({ label: `format:${formatKey}`, meta: fmt.provider_metadata, target: fmt });
+      }
+    }
+  }
+
+  return variants;
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
 /**
  * Compute the S3/R2 object key for a file.
  */
-const getObjectKey = (file: StrapiR2.File, config: StrapiR2.DefaultOptions): string => {
+const getObjectKey = (
+  file: StrapiR2.File,
+  config: StrapiR2.DefaultOptions,
+  context: KeyContext = {}
+): string => {
   const fileName = `${file.hash}${file.ext}`;
 
+  const bucketInfoFromPath = parseBucketFromPath(file.path || undefined);
+  const actualPath = bucketInfoFromPath
+    ? bucketInfoFromPath.actualPath
+    : context.routeFolder !== undefined
+      ? context.routeFolder
+      : file.path;
+
+  const folder = normalizeFolder(actualPath);
+
+  if (context.template) {
+    return renderKeyTemplate(context.template, file, folder, context);
+  }
+
   if (config.pool) {
     return fileName;
   }
 
-  const bucketInfoFromPath = parseBucketFromPath(file.path || undefined);
-  const actualPath = bucketInfoFromPath ? bucketInfoFromPath.actualPath : file.path;
-
-  const folder = trimLeadingSlash(actualPath || '');
   if (!folder) return fileName;
 
   return `${folder}/${fileName}`;
 };
 
+/**
+ * Hash the upload body. Streams are spooled to a temp file so they can still be uploaded afterwards.
+ */
+const hashBody = async (
+  body: Readable | Buffer
+): Promise<{ sha256: string; body: Readable | Buffer; cleanup: () => Promise<void> }> => {
+  if (Buffer.isBuffer(body)) {
+    return {
+      sha256: createHash('sha256').update(body).digest('hex'),
+      body,
+      cleanup: async () => {}
+    };
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'r2-advanced-'));
+  const spoolPath = join(dir, 'body');
+  const hash = createHash('sha256');
+
+  try {
+    await pipeline(
+      body,
+      new Transform({
+        transform(chunk, _encoding, callback) {
+          hash.update(chunk);
+          callback(null, chunk);
+        }
+      }),
+      createWriteStream(spoolPath)
+    );
+  } catch (err) {
+    await rm(dir, { recursive: true, force: true });
+    throw err;
+  }
+
+  return {
+    sha256: hash.digest('hex'),
+    body: createReadStream(spoolPath),
+    cleanup: () => rm(dir, { recursive: true, force: true })
+  };
+};
+
+// ─────────────────────────────────────────────────────────────
+// Token-authenticated URLs
+// ─────────────────────────────────────────────────────────────
+
+const base64url = (value: Buffer): string =>
+  value.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const hmac = (secret: string, data: string): Buffer =>
+  createHmac('sha256', secret).update(data).digest();
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+/**
+ * Build a token URL for `key` on the configured domain.
+ */
+const createTokenUrl = (
+  tokenAuth: StrapiR2.TokenAuthOptions,
+  key: string,
+  expiresIn: number,
+  now = Math.floor(Date.now() / 1000)
+): string => {
+  const url = new URL(`${trimSlash(tokenAuth.domain)}/${key.split('/').map(encodeURIComponent).join('/')}`);
+
+  if (tokenAuth.format === 'cloudflare-waf') {
+    const mac = hmac(tokenAuth.secret, `${url.pathname}${now}`).toString('base64');
+    url.searchParams.set(tokenAuth.param || 'verify', `${now}-${mac}`);
+    return url.toString();
+  }
+
+  const exp = now + expiresIn;
+  url.searchParams.set('exp', String(exp));
+  url.searchParams.set(tokenAuth.param || 'token', base64url(hmac(tokenAuth.secret, `${url.pathname}:${exp}`)));
+  return url.toString();
+};
+
+/**
+ * Check a token URL produced for a tokenAuth bucket. Exported for Workers and tests.
+ */
+const verifyToken = (
+  input: string | URL,
+  secret: string,
+  options: StrapiR2.VerifyTokenOptions = {}
+): boolean => {
+  let url: URL;
+  try {
+    url = new URL(String(input));
+  } catch {
+    return false;
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  if (options.format === 'cloudflare-waf') {
+    const value = url.searchParams.get(options.param || 'verify') || '';
+    const separator = value.indexOf('-');
+    if (separator <= 0) return false;
+
+    const issuedAt = Number(value.slice(0, separator));
+    const mac = value.slice(separator + 1);
+    // The token carries no expiry of its own
+    if (options.maxAge === undefined || !Number.isFinite(issuedAt) || issuedAt > now) return false;
+    if (issuedAt + options.maxAge < now) return false;
+
+    return safeEqual(mac, hmac(secret, `${url.pathname}${issuedAt}`).toString('base64'));
+  }
+
+  const exp = Number(url.searchParams.get('exp'));
+  const token = url.searchParams.get(options.param || 'token') || '';
+  if (!Number.isFinite(exp) || exp < now) return false;
+
+  return safeEqual(token, base64url(hmac(secret, `${url.pathname}:${exp}`)));
+};
+
+// Time left to finalize/abort once the upload URLs have expired
+const DIRECT_UPLOAD_GRACE = 3600;
+
+/**
+ * `base64url(JSON descriptor).base64url(HMAC-SHA256(secret, payload))`
+ */
+const signDirectUpload = (secret: string, descriptor: StrapiR2.DirectUploadDescriptor): string => {
+  const payload = base64url(Buffer.from(JSON.stringify(descriptor)));
+  return `${payload}.${base64url(hmac(secret, payload))}`;
+};
+
+/**
+ * The descriptor of a direct upload token, or null if it was tampered with or has expired.
+ */
+const readDirectUpload = (
+  secret: string,
+  token: string,
+  now = Math.floor(Date.now() / 1000)
+): StrapiR2.DirectUploadDescriptor | null => {
+  const [payload, mac, ...rest] = String(token || '').split('.');
+  if (!payload || !mac || rest.length || !safeEqual(mac, base64url(hmac(secret, payload)))) return null;
+
+  let descriptor: StrapiR2.DirectUploadDescriptor;
+  try {
+    descriptor = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  return typeof descriptor?.exp === 'number' && descriptor.exp >= now ? descriptor : null;
+};
+
+// ─────────────────────────────────────────────────────────────
+// Image resizing
+// ─────────────────────────────────────────────────────────────
+
+const DEFAULT_FORMAT_NAMES = ['thumbnail', 'small', 'medium', 'large'];
+
+const numberOption = (min: number, max: number) => (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const oneOf = (...values: Array<string | number>) => (value: unknown) =>
+  values.includes(value as string | number);
+
+// Option names and values end up in the URL path, so only these are accepted
+const TRANSFORM_OPTIONS: Record<keyof StrapiR2.TransformOptions, (value: unknown) => boolean> = {
+  width: numberOption(1, 12000),
+  height: numberOption(1, 12000),
+  dpr: numberOption(1, 10),
+  quality: numberOption(1, 100),
+  fit: oneOf('scale-down', 'contain', 'cover', 'crop', 'pad'),
+  format: oneOf('auto', 'avif', 'webp', 'jpeg', 'png', 'json'),
+  gravity: oneOf('auto', 'face', 'left', 'right', 'top', 'bottom'),
+  sharpen: numberOption(0, 10),
+  blur: numberOption(1, 250),
+  rotate: oneOf(0, 90, 180, 270),
+  metadata: oneOf('keep', 'copyright', 'none')
+};
+
+/**
+ * Why a transform option is invalid, or null.
+ */
+const transformOptionProblem = (name: string, value: unknown): string | null => {
+  if (!Object.prototype.hasOwnProperty.call(TRANSFORM_OPTIONS, name)) return `unknown option '${name}'`;
+  if (value === undefined || value === null) return null;
+  return TRANSFORM_OPTIONS[name as keyof StrapiR2.TransformOptions](value)
+    ? null
+    : `invalid value for '${name}' (got ${JSON.stringify(value)})`;
+};
+
+/**
+ * `${publicDomain}/cdn-cgi/image/width=300,fit=cover/${key}`
+ * Throws UploadPolicyError for unknown options and invalid values.
+ */
+const buildTransformUrl = (
+  publicDomain: string,
+  key: string,
+  options: StrapiR2.TransformOptions
+): string => {
+  for (const [name, value] of Object.entries(options)) {
+    const problem = transformOptionProblem(name, value);
+    if (problem) {
+      throw new UploadPolicyError(`[strapi-provider-cloudflare-r2-advanced] Image transform: ${problem}.`, { option: name });
+    }
+  }
+
+  const params = Object.entries(options)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(',');
+
+  return `${trimSlash(publicDomain)}/cdn-cgi/image/${params || 'format=auto'}/${trimLeadingSlash(key)}`;
+};
+
+// How long an original's formats still follow it (routing, synthesis) after its upload started
+const PENDING_ORIGINAL_TTL = 10 * 60 * 1000;
+
+// ─────────────────────────────────────────────────────────────
+// Migration from other providers
+// ─────────────────────────────────────────────────────────────
+
+const decodeKey = (path: string): string =>
+  trimLeadingSlash(path)
+    .split('/')
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    })
+    .join('/');
+
+/**
+ * Strip a URL prefix (scheme-insensitive) and return the rest as an object key.
+ */
+const keyAfterPrefix = (url: URL, prefix: string): string | null => {
+  let base: URL;
+  try {
+    base = new URL(prefix);
+  } catch {
+    return null;
+  }
+
+  if (url.host !== base.host) return null;
+
+  const basePath = trimSlash(base.pathname);
+  if (basePath && url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) return null;
+
+  const key = decodeKey(url.pathname.slice(basePath.length));
+  return key || null;
+};
+
+/**
+ * Every bucket/key a stored URL could point at: public domains, baseUrl, legacy domains,
+ * path-style `endpoint/bucket/key` and virtual-hosted `bucket.endpoint/key` (signed or not).
+ */
+const locateUrl = (
+  rawUrl: string,
+  config: StrapiR2.DefaultOptions,
+  baseUrl?: string | null,
+  legacyDomains: Record<string, string> = {}
+): Array<{ bucket: string; key: string }> => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return [];
+  }
+
+  const candidates: Array<{ bucket: string; key: string }> = [];
+  const add = (bucket: string, key: string | null) => {
+    if (key && !candidates.some((c) => c.bucket === bucket && c.key === key)) {
+      candidates.push({ bucket, key });
+    }
+  };
+
+  for (const [bucketKey, domain] of Object.entries(config.publicDomains || {})) {
+    add(bucketKey, keyAfterPrefix(url, domain));
+  }
+
+  for (const [domain, bucketKey] of Object.entries(legacyDomains)) {
+    add(bucketKey, keyAfterPrefix(url, domain));
+  }
+
+  // baseUrl is shared by all public buckets
+  if (baseUrl) {
+    for (const bucketKey of Object.keys(config.publicDomains || {})) {
+      add(bucketKey, keyAfterPrefix(url, baseUrl));
+    }
+  }
+
+  for (const bucketKey of Object.keys(config.buckets || {})) {
+    const bucket = resolveBucket(config, bucketKey);
+    if (!bucket?.endpoint) continue;
+
+    let endpoint: URL;
+    try {
+      endpoint = new URL(bucket.endpoint);
+    } catch {
+      continue;
+    }
+
+    // Path-style: endpoint/bucket/key
+    add(bucketKey, keyAfterPrefix(url, `${trimSlash(bucket.endpoint)}/${bucket.name}`));
+
+    // Virtual-hosted: bucket.endpoint-host/key
+    if (url.host === `${bucket.name}.${endpoint.host}`) {
+      add(bucketKey, decodeKey(url.pathname));
+    }
+  }
+
+  return candidates;
+};
+
+/**
+ * Content-Disposition with an RFC 5987 fallback for non-ASCII names.
+ */
+const contentDisposition = (fileName: string, type: 'inline' | 'attachment' = 'attachment'): string => {
+  const ascii = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+// ─────────────────────────────────────────────────────────────
+// Object headers & metadata
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Cache-Control, Content-Disposition and Content-Language for a file:
+ * root headers, then the bucket's, each followed by their matching byMime entries.
+ */
+const resolveObjectHeaders = (
+  file: StrapiR2.File,
+  config: StrapiR2.DefaultOptions,
+  bucket: StrapiR2.ResolvedBucket
+): Pick<PutObjectCommandInput, 'CacheControl' | 'ContentDisposition' | 'ContentLanguage'> => {
+  const merged: StrapiR2.ObjectHeaders = {};
+  const apply = (headers?: StrapiR2.ObjectHeaders) => {
+    for (const [name, value] of Object.entries(headers || {})) {
+      if (value !== undefined) (merged as any)[name] = value;
+    }
+  };
+
+  for (const layer of [config.headers, bucket.options.headers]) {
+    if (!layer) continue;
+    const { byMime, ...defaults } = layer;
+    apply(defaults);
+    for (const [pattern, headers] of Object.entries(byMime || {})) {
+      if (matchesMime(file.mime, [pattern])) apply(headers);
+    }
+  }
+
+  return {
+    ...(merged.cacheControl ? { CacheControl: merged.cacheControl } : {}),
+    ...(merged.contentDisposition
+      ? { ContentDisposition: contentDisposition(file.name, merged.contentDisposition) }
+      : {}),
+    ...(merged.contentLanguage ? { ContentLanguage: merged.contentLanguage } : {})
+  };
+};
+
+/**
+ * x-amz-meta-* values copied from Strapi file fields. Empty fields are skipped,
+ * non-ASCII values are percent-encoded (object metadata travels as HTTP headers).
+ */
+const resolveObjectMetadata = (
+  file: StrapiR2.File,
+  config: StrapiR2.DefaultOptions,
+  bucket: StrapiR2.ResolvedBucket
+): Record<string, string> => {
+  const fields = { ...(config.metadataFields || {}), ...(bucket.options.metadataFields || {}) };
+  const metadata: Record<string, string> = {};
+
+  for (const [name, field] of Object.entries(fields)) {
+    const value = file[field];
+    if (value === undefined || value === null || value === '') continue;
+
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    metadata[name.toLowerCase()] = /^[\x20-\x7e]*$/.test(text) ? text : encodeURIComponent(text);
+  }
+
+  return metadata;
+};
+
 const assertUrlProtocol = (url: string) => /^\w*:\/\//.test(url);
 
-/**
- * Build the appropriate URL based on bucket type (publicDomain, private/signed, or endpoint).
- */
-const buildFileUrl = async (args: {
-  s3Client: S3Client;
-  config: StrapiR2.DefaultOptions;
-  bucketKey: string;
-  bucketName: string;
-  key: string;
-  isPrivate: boolean;
-}): Promise<string> => {
-  const { s3Client, config, bucketKey, bucketName, key, isPrivate } = args;
-  const cleanKey = trimLeadingSlash(key);
-  const publicDomains = config.publicDomains || {};
-  const endpoint = config.endpoint as string | undefined;
+/**
+ * Build the appropriate URL based on bucket type (publicDomain, private/signed, or endpoint).
+ */
+const buildFileUrl = async (args: {
+  sign: (key: string) => Promise<string>;
+  config: StrapiR2.DefaultOptions;
+  bucketKey: string;
+  bucketName: string;
+  key: string;
+  isPrivate: boolean;
+}): Promise<string> => {
+  const { sign, config, bucketKey, bucketName, key, isPrivate } = args;
+  const cleanKey = trimLeadingSlash(key);
+  const publicDomains = config.publicDomains || {};
+  const endpoint = resolveBucket(config, bucketKey)?.endpoint;
+
+  // Public bucket with configured public domain
+  if (!isPrivate && publicDomains[bucketKey]) {
+    const publicDomain = trimSlash(publicDomains[bucketKey]);
+    return `${publicDomain}/${cleanKey}`;
+  }
+
+  // Private bucket → signed URL via v3
+  if (isPrivate) {
+    return sign(cleanKey);
+  }
+
+  // Fallback: endpoint/bucket/key (works if bucket is public)
+  if (!endpoint) {
+    throw new Error(
+      '[strapi-provider-cloudflare-r2-advanced] Missing `endpoint` in providerOptions.'
+    );
+  }
+
+  const baseEndpoint = trimSlash(endpoint);
+  return `${baseEndpoint}/${bucketName}/${cleanKey}`;
+};
+
+// ─────────────────────────────────────────────────────────────
+// Checksums
+// ─────────────────────────────────────────────────────────────
+
+const CRC32C_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x82f63b78 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Incremental digest in the encoding S3 uses for x-amz-checksum-* (base64).
+ */
+const createChecksum = (algorithm: StrapiR2.ChecksumAlgorithm) => {
+  if (algorithm === 'SHA256') {
+    const hash = createHash('sha256');
+    return {
+      update: (chunk: Buffer) => void hash.update(chunk),
+      digest: () => hash.digest('base64')
+    };
+  }
+
+  let crc = 0xffffffff;
+  return {
+    update: (chunk: Buffer) => {
+      for (let i = 0; i < chunk.length; i++) {
+        crc = CRC32C_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+      }
+    },
+    digest: () => {
+      const out = Buffer.alloc(4);
+      out.writeUInt32BE((crc ^ 0xffffffff) >>> 0);
+      return out.toString('base64');
+    }
+  };
+};
+
+/**
+ * Count (and optionally digest) a body while it is being uploaded.
+ * `result()` is valid once the body was fully read.
+ */
+const trackBody = (
+  body: Readable | Buffer,
+  algorithm?: StrapiR2.ChecksumAlgorithm | false
+): { body: Readable | Buffer; result: () => { checksum?: string; bytes: number } } => {
+  const checksum = algorithm ? createChecksum(algorithm) : null;
+
+  if (Buffer.isBuffer(body)) {
+    checksum?.update(body);
+    const value = checksum?.digest();
+    return { body, result: () => ({ checksum: value, bytes: body.length }) };
+  }
+
+  let bytes = 0;
+  let value: string | undefined;
+  let done = false;
+  const tracked = new Transform({
+    transform(chunk, _encoding, callback) {
+      bytes += chunk.length;
+      checksum?.update(chunk);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      value = checksum?.digest();
+      done = true;
+      callback();
+    }
+  });
+  body.on('error', (err) => tracked.destroy(err));
+  body.pipe(tracked);
+
+  return {
+    body: tracked,
+    result: () => {
+      if (!done) throw new Error('Body size requested before it was fully read.');
+      return { checksum: value, bytes };
+    }
+  };
+};
+
+/**
+ * Full-object checksum as returned by HEAD, or null for composite (multipart) checksums.
+ */
+const fullObjectChecksum = (head: Record<string, any>, algorithm: StrapiR2.ChecksumAlgorithm) => {
+  const value = head[`Checksum${algorithm}`] as string | undefined;
+  return value && !value.includes('-') && head.ChecksumType !== 'COMPOSITE' ? value : null;
+};
+
+// ─────────────────────────────────────────────────────────────
+// SSE-C encryption
+// ─────────────────────────────────────────────────────────────
+
+const SSE_ALGORITHM = 'AES256';
+
+/**
+ * Key for an object in an SSE-C bucket: `keyId`, or the active key when undefined.
+ * `null` means the object is known to be unencrypted. Returns null for buckets without encryption.
+ */
+// In provider_metadata, a missing sseKeyId means the object was stored unencrypted.
+const resolveSseKey = (
+  bucket: StrapiR2.ResolvedBucket,
+  keyId?: string | null
+): { id: string; key: string } | null => {
+  const encryption = bucket.options.encryption;
+  if (!encryption || keyId === null) return null;
+
+  const id = keyId ?? encryption.activeKeyId;
+  const key = encryption.keys?.[id];
+  if (!key) {
+    throw new Error(
+      `[strapi-provider-cloudflare-r2-advanced] Unknown encryption key '${id}' for bucket '${bucket.key}'.`
+    );
+  }
+  return { id, key };
+};
+
+/**
+ * Key ID a copy into `bucket` gets: the source's key if the bucket has it, else the active key.
+ */
+const copyKeyId = (bucket: StrapiR2.ResolvedBucket, sourceKeyId?: string | null): string | undefined => {
+  const encryption = bucket.options.encryption;
+  if (!encryption) return undefined;
+  return sourceKeyId && encryption.keys?.[sourceKeyId] ? sourceKeyId : encryption.activeKeyId;
+};
+
+const sseParams = (sse: { key: string } | null) =>
+  sse ? { SSECustomerAlgorithm: SSE_ALGORITHM, SSECustomerKey: sse.key } : {};
+
+const sseCopySourceParams = (sse: { key: string } | null) =>
+  sse ? { CopySourceSSECustomerAlgorithm: SSE_ALGORITHM, CopySourceSSECustomerKey: sse.key } : {};
+
+/**
+ * Problems with a bucket's SSE-C settings (empty when fine).
+ */
+const checkEncryption = (config: StrapiR2.DefaultOptions, bucket: StrapiR2.ResolvedBucket): string[] => {
+  const encryption = bucket.options.encryption;
+  if (!encryption) return [];
+
+  const problems: string[] = [];
+  if (!encryption.keys?.[encryption.activeKeyId]) {
+    problems.push(`activeKeyId '${encryption.activeKeyId}' is not in keys`);
+  }
+  for (const [id, key] of Object.entries(encryption.keys || {})) {
+    if (Buffer.from(String(key), 'base64').length !== 32) {
+      problems.push(`key '${id}' must be 32 bytes, base64-encoded`);
+    }
+  }
+  if (!isPrivateBucket(config, bucket.key)) {
+    problems.push('encrypted buckets cannot have a public domain');
+  }
+  return problems;
+};
+
+// ─────────────────────────────────────────────────────────────
+// Upload policies & content sniffing
+// ─────────────────────────────────────────────────────────────
+
+const SNIFF_BYTES = 512;
+
+type SniffKind = 'binary' | 'executable' | 'html' | 'svg';
+
+interface Signature {
+  kind: SniffKind;
+  label: string;
+  // Declared MIME types compatible with this signature (wildcards allowed)
+  mimes: string[];
+  test: (head: Buffer) => boolean;
+}
+
+const startsWith = (head: Buffer, bytes: number[], offset = 0): boolean =>
+  head.length >= offset + bytes.length && bytes.every((b, i) => head[offset + i] === b);
+
+const asciiAt = (head: Buffer, text: string, offset = 0): boolean =>
+  head.toString('latin1', offset, offset + text.length) === text;
+
+const SIGNATURES: Signature[] = [
+  { kind: 'binary', label: 'png', mimes: ['image/png', 'image/apng'], test: (h) => startsWith(h, [0x89, 0x50, 0x4e, 0x47]) },
+  { kind: 'binary', label: 'jpeg', mimes: ['image/jpeg', 'image/pjpeg'], test: (h) => startsWith(h, [0xff, 0xd8, 0xff]) },
+  { kind: 'binary', label: 'gif', mimes: ['image/gif'], test: (h) => asciiAt(h, 'GIF8') },
+  { kind: 'binary', label: 'webp', mimes: ['image/webp'], test: (h) => asciiAt(h, 'RIFF') && asciiAt(h, 'WEBP', 8) },
+  { kind: 'binary', label: 'wav', mimes: ['audio/wav', 'audio/x-wav', 'audio/wave'], test: (h) => asciiAt(h, 'RIFF') && asciiAt(h, 'WAVE', 8) },
+  { kind: 'binary', label: 'avi', mimes: ['video/x-msvideo', 'video/avi'], test: (h) => asciiAt(h, 'RIFF') && asciiAt(h, 'AVI ', 8) },
+  { kind: 'binary', label: 'bmp', mimes: ['image/bmp', 'image/x-ms-bmp'], test: (h) => asciiAt(h, 'BM') && h.length > 14 },
+  { kind: 'binary', label: 'ico', mimes: ['image/x-icon', 'image/vnd.microsoft.icon'], test: (h) => startsWith(h, [0x00, 0x00, 0x01, 0x00]) },
+  { kind: 'binary', label: 'tiff', mimes: ['image/tiff'], test: (h) => startsWith(h, [0x49, 0x49, 0x2a, 0x00]) || startsWith(h, [0x4d, 0x4d, 0x00, 0x2a]) },
+  { kind: 'binary', label: 'pdf', mimes: ['application/pdf'], test: (h) => asciiAt(h, '%PDF-') },
+  {
+    kind: 'binary',
+    label: 'zip',
+    mimes: [
+      'application/zip',
+      'application/x-zip-compressed',
+      'application/epub+zip',
+      'application/vnd.openxmlformats-officedocument.*',
+      'application/vnd.oasis.opendocument.*',
+      'application/vnd.ms-*'
+    ],
+    test: (h) => startsWith(h, [0x50, 0x4b, 0x03, 0x04]) || startsWith(h, [0x50, 0x4b, 0x05, 0x06])
+  },
+  { kind: 'binary', label: 'ole', mimes: ['application/msword', 'application/vnd.ms-*'], test: (h) => startsWith(h, [0xd0, 0xcf, 0x11, 0xe0]) },
+  { kind: 'binary', label: 'gzip', mimes: ['application/gzip', 'application/x-gzip'], test: (h) => startsWith(h, [0x1f, 0x8b]) },
+  { kind: 'binary', label: 'mp4', mimes: ['video/*', 'video/mp4', 'audio/mp4', 'audio/x-m4a', 'image/avif', 'image/heic', 'image/heif'], test: (h) => asciiAt(h, 'ftyp', 4) },
+  { kind: 'binary', label: 'webm', mimes: ['video/webm', 'audio/webm', 'video/x-matroska'], test: (h) => startsWith(h, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { kind: 'binary', label: 'ogg', mimes: ['audio/ogg', 'video/ogg', 'application/ogg'], test: (h) => asciiAt(h, 'OggS') },
+  { kind: 'binary', label: 'mp3', mimes: ['audio/mpeg', 'audio/mp3'], test: (h) => asciiAt(h, 'ID3') || (h[0] === 0xff && (h[1] & 0xe0) === 0xe0) },
+  { kind: 'executable', label: 'exe', mimes: [], test: (h) => asciiAt(h, 'MZ') },
+  { kind: 'executable', label: 'elf', mimes: [], test: (h) => startsWith(h, [0x7f, 0x45, 0x4c, 0x46]) },
+  {
+    kind: 'executable',
+    label: 'mach-o',
+    mimes: [],
+    test: (h) =>
+      startsWith(h, [0xcf, 0xfa, 0xed, 0xfe]) ||
+      startsWith(h, [0xce, 0xfa, 0xed, 0xfe]) ||
+      startsWith(h, [0xca, 0xfe, 0xba, 0xbe])
+  },
+  { kind: 'executable', label: 'script', mimes: [], test: (h) => asciiAt(h, '#!') }
+];
+
+/**
+ * Best-effort detection from the first bytes of a file. Returns null for unknown (e.g. plain text).
+ */
+const sniffContent = (head: Buffer): Signature | null => {
+  const binary = SIGNATURES.find((sig) => sig.test(head));
+  if (binary) return binary;
+
+  // Markup is text: skip BOM/whitespace/comments and look at the first tags
+  const text = head.toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg[\s>]/.test(text)) {
+    return { kind: 'svg', label: 'svg', mimes: ['image/svg+xml'], test: () => true };
+  }
+  if (/<!doctype html|<html[\s>]|<head[\s>]|<body[\s>]|<script[\s>]|<iframe[\s>]/.test(text.slice(0, SNIFF_BYTES))) {
+    return { kind: 'html', label: 'html', mimes: ['text/html', 'application/xhtml+xml'], test: () => true };
+  }
+
+  return null;
+};
+
+const isSvgType = (mime: string, ext: string) => mime === 'image/svg+xml' || ext === '.svg' || ext === '.svgz';
+
+const isHtmlType = (mime: string, ext: string) =>
+  mime === 'text/html' || mime === 'application/xhtml+xml' || ['.html', '.htm', '.xhtml', '.shtml'].includes(ext);
+
+/**
+ * Read the first bytes of a stream without losing them.
+ * Small streams that end while peeking are returned as a buffer.
+ */
+const peekStream = (stream: Readable, size: number): Promise<{ head: Buffer; body: Readable | Buffer }> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    const cleanup = () => {
+      stream.off('data', onData);
+      stream.off('end', onEnd);
+      stream.off('error', onError);
+    };
+
+    const onData = (chunk: Buffer | string) => {
+      const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      chunks.push(buf);
+      length += buf.length;
+      if (length >= size) {
+        stream.pause();
+        cleanup();
+        const head = Buffer.concat(chunks);
+        stream.unshift(head);
+        resolve({ head: head.subarray(0, size), body: stream });
+      }
+    };
+
+    const onEnd = () => {
+      cleanup();
+      const all = Buffer.concat(chunks);
+      resolve({ head: all.subarray(0, size), body: all });
+    };
+
+    const onError = (err: Error) => {
+      cleanup();
+      reject(err);
+    };
+
+    stream.on('data', onData);
+    stream.once('end', onEnd);
+    stream.once('error', onError);
+  });
+
+const policyRejection = (file: StrapiR2.File, bucketKey: string) => {
+  const details = { bucket: bucketKey, mime: (file.mime || '').toLowerCase(), ext: normalizeExt(file.ext) };
+  return (reason: string): never => {
+    throw new UploadPolicyError(`${file.name} was rejected by the '${bucketKey}' bucket policy: ${reason}.`, details);
+  };
+};
+
+/**
+ * Check the declared type, extension and size (bytes) against a bucket policy.
+ */
+const checkDeclaredPolicy = (
+  file: StrapiR2.File,
+  size: number,
+  policy: StrapiR2.UploadPolicy,
+  bucketKey: string
+): void => {
+  const mime = (file.mime || '').toLowerCase();
+  const ext = normalizeExt(file.ext);
+  const reject = policyRejection(file, bucketKey);
+
+  if (policy.allowedMimeTypes?.length && !matchesMime(mime, policy.allowedMimeTypes)) {
+    reject(`type '${mime}' is not allowed`);
+  }
+
+  if (policy.allowedExtensions?.length && !policy.allowedExtensions.map(normalizeExt).includes(ext)) {
+    reject(`extension '${ext}' is not allowed`);
+  }
+
+  if (!policy.allowSvg && isSvgType(mime, ext)) reject('SVG files are not allowed');
+  if (!policy.allowHtml && isHtmlType(mime, ext)) reject('HTML files are not allowed');
+
+  if (policy.maxSize && size > policy.maxSize) {
+    throw new PayloadTooLargeError(
+      `${file.name} exceeds size limit of ${bytesToHumanReadable(policy.maxSize)}.`,
+      { bucket: bucketKey, mime, ext, sizeLimit: policy.maxSize }
+    );
+  }
+  if (policy.minSize && size < policy.minSize) {
+    reject(`file is smaller than ${bytesToHumanReadable(policy.minSize)}`);
+  }
+};
+
+/**
+ * Compare the first bytes of a file with its declared type.
+ */
+const checkSniffedContent = (
+  file: StrapiR2.File,
+  head: Buffer,
+  policy: StrapiR2.UploadPolicy,
+  bucketKey: string
+): void => {
+  if (policy.sniffContent === false) return;
+
+  const mime = (file.mime || '').toLowerCase();
+  const reject = policyRejection(file, bucketKey);
+  const detected = sniffContent(head);
+
+  // A declared type with a known signature must carry it (wildcard entries only describe compatibility)
+  const expected = SIGNATURES.filter((sig) => sig.mimes.includes(mime));
+  if (expected.length && !expected.some((sig) => sig === detected)) {
+    reject(`content does not match declared type '${mime}' (expected ${expected.map((sig) => sig.label).join(' or ')})`);
+  }
+
+  if (!detected) return;
+
+  if (detected.kind === 'executable') reject(`content looks like an executable (${detected.label})`);
+  if (detected.kind === 'svg' && !policy.allowSvg) reject('content is SVG');
+  if (detected.kind === 'html' && !policy.allowHtml) reject('content is HTML');
+  if (!matchesMime(mime, detected.mimes)) {
+    reject(`content (${detected.label}) does not match declared type '${mime}'`);
+  }
+};
+
+/**
+ * Check a file against a bucket policy. Throws UploadPolicyError / PayloadTooLargeError.
+ * Returns the body to upload (streams are peeked and handed back intact).
+ */
+const enforceUploadPolicy = async (
+  file: StrapiR2.File,
+  body: Readable | Buffer,
+  policy: StrapiR2.UploadPolicy,
+  bucketKey: string
+): Promise<Readable | Buffer> => {
+  const size = Buffer.isBuffer(body) ? body.length : kbytesToBytes(file.size || 0);
+  checkDeclaredPolicy(file, size, policy, bucketKey);
+
+  if (policy.sniffContent === false) return body;
+
+  let head: Buffer;
+  if (Buffer.isBuffer(body)) {
+    head = body.subarray(0, SNIFF_BYTES);
+  } else {
+    const peeked = await peekStream(body, SNIFF_BYTES);
+    head = peeked.head;
+    body = peeked.body;
+  }
+
+  checkSniffedContent(file, head, policy, bucketKey);
+
+  return body;
+};
+
+// ─────────────────────────────────────────────────────────────
+// Storage drivers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * R2 (or any S3 API) through the AWS SDK.
+ */
+const createS3Driver = (config: StrapiR2.DefaultOptions): StrapiR2.StorageDriver => {
+  // The SDK would log every request through our logger, keep it to provider events
+  const clientConfig: S3ClientConfig = { ...config, logger: undefined };
+  const s3Client = new S3Client(clientConfig);
+  const concurrency = config.concurrency || 4;
+
+  // One client per distinct connection (endpoint + region + access key)
+  const clients = new Map<string, S3Client>();
+
+  const getClient = (bucket: StrapiR2.ResolvedBucket): S3Client => {
+    const options = bucket.options;
+    const usesRootConnection =
+      !options.endpoint &&
+      !options.region &&
+      !options.credentials &&
+      !options.accessKeyId;
+
+    if (usesRootConnection) return s3Client;
+
+    const connectionId = getConnectionId(bucket);
+    let client = clients.get(connectionId);
+    if (!client) {
+      client = new S3Client({
+        ...clientConfig,
+        endpoint: bucket.endpoint,
+        region: bucket.region,
+        ...(bucket.credentials ? { credentials: bucket.credentials } : {})
+      });
+      clients.set(connectionId, client);
+    }
+    return client;
+  };
+
+  const head: StrapiR2.StorageDriver['head'] = async (bucket, key, options = {}) => {
+    try {
+      return await getClient(bucket).send(
+        new HeadObjectCommand({
+          Bucket: bucket.name,
+          Key: key,
+          ...(options.checksums ? { ChecksumMode: 'ENABLED' as const } : {}),
+          ...sseParams(options.sse ?? null)
+        })
+      );
+    } catch (err) {
+      if (isNotFoundError(err)) return null;
+      throw err;
+    }
+  };
+
+  return {
+    name: 's3',
+
+    client: getClient,
+
+    /**
+     * lib-storage Upload; it aborts its own multipart upload on failure unless leavePartsOnError.
+     */
+    async upload(bucket, params, { multipart, signal, onProgress }) {
+      const abortController = new AbortController();
+      const onAbort = () => abortController.abort();
+      signal?.addEventListener('abort', onAbort);
+
+      const upload = new Upload({
+        client: getClient(bucket),
+        params,
+        ...(multipart.partSize ? { partSize: multipart.partSize } : {}),
+        ...(multipart.queueSize ? { queueSize: multipart.queueSize } : {}),
+        leavePartsOnError: !!multipart.leavePartsOnError,
+        abortController
+      });
+      upload.on('httpUploadProgress', (progress) => onProgress?.(progress));
+
+      try {
+        return (await upload.done()) as { ETag?: string };
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    },
+
+    head,
+
+    async get(bucket, key, options = {}) {
+      const object = await getClient(bucket).send(
+        new GetObjectCommand({ Bucket: bucket.name, Key: key, ...sseParams(options.sse ?? null) })
+      );
+      return object as unknown as StrapiR2.StoredObject & { Body: Readable };
+    },
+
+    /**
+     * CopyObject on the same connection (multipart copy above 5 GB); streams the object
+     * across when source and target live on different connections.
+     */
+    async copy(from, to, { sourceSse = null, targetSse = null, metadata } = {}) {
+      const sourceClient = getClient(from.bucket);
+      const targetClient = getClient(to.bucket);
+
+      // Different account/endpoint: server-side copy is not possible, stream it across
+      if (sourceClient !== targetClient) {
+        const source = await sourceClient.send(
+          new GetObjectCommand({
+            Bucket: from.bucket.name,
+            Key: from.key,
+            ...sseParams(sourceSse)
+          })
+        );
+
+        await new Upload({
+          client: targetClient,
+          params: {
+            Bucket: to.bucket.name,
+            Key: to.key,
+            Body: source.Body as any,
+            ContentType: source.ContentType,
+            CacheControl: source.CacheControl,
+            ContentDisposition: source.ContentDisposition,
+            ContentLanguage: source.ContentLanguage,
+            Metadata: { ...(source.Metadata || {}), ...(metadata || {}) },
+            ACL: to.bucket.acl as ObjectCannedACL | undefined,
+            ...sseParams(targetSse)
+          }
+        }).done();
+        return;
+      }
+
+      const CopySource = encodeCopySource(from.bucket.name, from.key);
+      const source = await head(from.bucket, from.key, { sse: sourceSse });
+      if (!source) {
+        throw Object.assign(
+          new Error(
+            `[strapi-provider-cloudflare-r2-advanced] Source object '${from.key}' not found in bucket '${from.bucket.key}'.`
+          ),
+          { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } }
+        );
+      }
+
+      const size = source.ContentLength || 0;
+      if (size <= MAX_COPY_OBJECT_SIZE) {
+        await targetClient.send(
+          new CopyObjectCommand({
+            Bucket: to.bucket.name,
+            Key: to.key,
+            CopySource,
+            ...sseCopySourceParams(sourceSse),
+            ...sseParams(targetSse),
+            // Replacing metadata drops the stored headers, so send them along
+            ...(metadata
+              ? {
+                MetadataDirective: 'REPLACE' as const,
+                ContentType: source.ContentType,
+                CacheControl: source.CacheControl,
+                ContentDisposition: source.ContentDisposition,
+                ContentLanguage: source.ContentLanguage,
+                Metadata: { ...(source.Metadata || {}), ...metadata }
+              }
+              : {})
+          })
+        );
+        return;
+      }
+
+      // Above 5 GB: multipart copy
+      const { UploadId } = await targetClient.send(
+        new CreateMultipartUploadCommand({
+          Bucket: to.bucket.name,
+          Key: to.key,
+          ContentType: source.ContentType,
+          CacheControl: source.CacheControl,
+          ContentDisposition: source.ContentDisposition,
+          ContentLanguage: source.ContentLanguage,
+          Metadata: { ...(source.Metadata || {}), ...(metadata || {}) },
+          ...sseParams(targetSse)
+        })
+      );
+
+      try {
+        const ranges = Array.from({ length: Math.ceil(size / COPY_PART_SIZE) }, (_, index) => ({
+          partNumber: index + 1,
+          start: index * COPY_PART_SIZE,
+          end: Math.min((index + 1) * COPY_PART_SIZE, size) - 1
+        }));
+
+        const parts = await mapWithConcurrency(ranges, concurrency, async (range) => {
+          const result = await targetClient.send(
+            new UploadPartCopyCommand({
+              Bucket: to.bucket.name,
+              Key: to.key,
+              UploadId,
+              PartNumber: range.partNumber,
+              CopySource,
+              CopySourceRange: `bytes=${range.start}-${range.end}`,
+              ...sseCopySourceParams(sourceSse),
+              ...sseParams(targetSse)
+            })
+          );
+          return { PartNumber: range.partNumber, ETag: result.CopyPartResult?.ETag };
+        });
+
+        await targetClient.send(
+          new CompleteMultipartUploadCommand({
+            Bucket: to.bucket.name,
+            Key: to.key,
+            UploadId,
+            MultipartUpload: { Parts: parts },
+            ...sseParams(targetSse)
+          })
+        );
+      } catch (err) {
+        await targetClient
+          .send(new AbortMultipartUploadCommand({ Bucket: to.bucket.name, Key: to.key, UploadId }))
+          .catch(() => undefined);
+        throw err;
+      }
+    },
+
+    delete: (bucket, key, params = {}) =>
+      getClient(bucket).send(new DeleteObjectCommand({ Bucket: bucket.name, Key: key, ...params })),
+
+    async deleteMany(bucket, keys) {
+      const output = await getClient(bucket).send(
+        new DeleteObjectsCommand({
+          Bucket: bucket.name,
+          Delete: { Objects: keys.map((Key) => ({ Key })), Quiet: true }
+        })
+      );
+      return (output.Errors || []).map((e) => ({
+        key: e.Key as string,
+        message: e.Message || e.Code || 'Delete failed.'
+      }));
+    },
+
+    /**
+     * ListObjectsV2, paginated.
+     */
+    async *list(bucket, prefix = '') {
+      let ContinuationToken: string | undefined;
+      do {
+        const page = await getClient(bucket).send(
+          new ListObjectsV2Command({ Bucket: bucket.name, Prefix: prefix || undefined, ContinuationToken })
+        );
+        for (const object of page.Contents || []) {
+          yield object;
+        }
+        ContinuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (ContinuationToken);
+    },
+
+    signGetUrl: (bucket, key, options) =>
+      getSignedUrl(
+        getClient(bucket),
+        new GetObjectCommand({
+          Bucket: bucket.name,
+          Key: key,
+          ResponseContentDisposition: options.responseContentDisposition,
+          ResponseContentType: options.responseContentType,
+          ResponseCacheControl: options.responseCacheControl,
+          ...sseParams(options.sse ?? null)
+        }),
+        { expiresIn: options.expiresIn }
+      )
+  };
+};
+
+// Per bucket directory: JSON sidecars (objects/<key>.json) and in-flight writes (tmp/)
+const LOCAL_META_DIR = '.r2meta';
+
+const LOCAL_CHECKSUMS: StrapiR2.ChecksumAlgorithm[] = ['SHA256', 'CRC32C'];
+
+const LOCAL_OVERRIDES = ['response-content-disposition', 'response-content-type', 'response-cache-control'];
+
+/**
+ * Token for a local URL: HMAC over path, expiry and the response-* overrides (absent ones as empty).
+ */
+const localUrlToken = (secret: string, url: URL, exp: number): string =>
+  base64url(
+    hmac(
+      secret,
+      [`${url.pathname}:${exp}`, ...LOCAL_OVERRIDES.map((param) => `${param}=${url.searchParams.get(param) ?? ''}`)].join('\n')
+    )
+  );
+
+/**
+ * Buckets as directories below `local.root`, for development and CI without network access.
+ * Headers, metadata, ETag (MD5) and checksums live in sidecar files; SSE-C keys are ignored.
+ * Private buckets get HMAC-signed URLs served by handleRequest().
+ */
+const createLocalDriver = (config: StrapiR2.DefaultOptions, options: StrapiR2.LocalDriverOptions) => {
+  const root = resolve(options.root);
+
+  const locate = (bucket: StrapiR2.ResolvedBucket, key: string) => {
+    const dir = resolve(root, options.directories?.[bucket.key] ?? bucket.name);
+    const segments = key.split('/');
+    const file = resolve(dir, ...segments);
+
+    if (
+      segments.some((segment) => !segment || segment === '.' || segment === '..') ||
+      segments[0] === LOCAL_META_DIR ||
+      !file.startsWith(dir + sep)
+    ) {
+      throw new Error(
+        `[strapi-provider-cloudflare-r2-advanced] Object key '${key}' cannot be stored by the local driver.`
+      );
+    }
+
+    return {
+      dir,
+      file,
+      meta: join(dir, LOCAL_META_DIR, 'objects', ...segments) + '.json',
+      temp: join(dir, LOCAL_META_DIR, 'tmp', randomBytes(8).toString('hex'))
+    };
+  };
+
+  const notFound = (bucket: StrapiR2.ResolvedBucket, key: string) =>
+    Object.assign(
+      new Error(
+        `[strapi-provider-cloudflare-r2-advanced] Object '${key}' not found in bucket '${bucket.key}'.`
+      ),
+      { name: 'NoSuchKey', $metadata: { httpStatusCode: 404 } }
+    );
+
+  const head = async (bucket: StrapiR2.ResolvedBucket, key: string): Promise<StrapiR2.StoredObject | null> => {
+    const paths = locate(bucket, key);
+    let stats;
+    try {
+      stats = await stat(paths.file);
+    } catch (err: any) {
+      if (err?.code === 'ENOENT' || err?.code === 'ENOTDIR') return null;
+      throw err;
+    }
+    if (!stats.isFile()) return null;
+
+    // Files dropped into the directory by hand have no sidecar
+    const stored = await readFile(paths.meta, 'utf8').then(JSON.parse, () => ({}));
+    return { ...stored, ContentLength: stats.size, LastModified: stats.mtime };
+  };
+
+  /**
+   * Move a finished temp file into place, sidecar first.
+   */
+  const commit = async (
+    paths: ReturnType<typeof locate>,
+    stored: Omit<StrapiR2.StoredObject, 'ContentLength' | 'LastModified'>
+  ) => {
+    await mkdir(dirname(paths.meta), { recursive: true });
+    await writeFile(paths.meta, JSON.stringify(stored));
+    await mkdir(dirname(paths.file), { recursive: true });
+    await rename(paths.temp, paths.file);
+  };
+
+  const remove = async (bucket: StrapiR2.ResolvedBucket, key: string) => {
+    const paths = locate(bucket, key);
+    await rm(paths.file, { force: true });
+    await rm(paths.meta, { force: true });
+  };
+
+  const driver: StrapiR2.StorageDriver = {
+    name: 'local',
+
+    async upload(bucket, params, { signal, onProgress }) {
+      const paths = locate(bucket, params.Key as string);
+      const body = params.Body;
+      const source = body instanceof Readable ? body : Readable.from([Buffer.from(body as any)]);
+
+      const algorithm = LOCAL_CHECKSUMS.find((name) => name === params.ChecksumAlgorithm);
+      const checksum = algorithm ? createChecksum(algorithm) : null;
+      const md5 = createHash('md5');
+      let loaded = 0;
+
+      await mkdir(dirname(paths.temp), { recursive: true });
+      try {
+        await pipeline(
+          source,
+          new Transform({
+            transform(chunk, _encoding, callback) {
+              loaded += chunk.length;
+              md5.update(chunk);
+              checksum?.update(chunk);
+              onProgress?.({ loaded });
+              callback(null, chunk);
+            }
+          }),
+          createWriteStream(paths.temp),
+          { signal }
+        );
+
+        const ETag = `"${md5.digest('hex')}"`;
+        await commit(paths, {
+          ContentType: params.ContentType,
+          CacheControl: params.CacheControl,
+          ContentDisposition: params.ContentDisposition,
+          ContentLanguage: params.ContentLanguage,
+          Metadata: params.Metadata,
+          ETag,
+          ...(checksum ? { [`Checksum${algorithm}`]: checksum.digest(), ChecksumType: 'FULL_OBJECT' as const } : {})
+        });
+        return { ETag };
+      } finally {
+        await rm(paths.temp, { force: true });
+      }
+    },
+
+    head: (bucket, key) => head(bucket, key),
+
+    async get(bucket, key) {
+      const object = await head(bucket, key);
+      if (!object) throw notFound(bucket, key);
+      return { ...object, Body: createReadStream(locate(bucket, key).file) };
+    },
+
+    async copy(from, to, { metadata } = {}) {
+      const source = await head(from.bucket, from.key);
+      if (!source) throw notFound(from.bucket, from.key);
+
+      const { ContentLength: _size, LastModified: _modified, ...stored } = source;
+      const paths = locate(to.bucket, to.key);
+      await mkdir(dirname(paths.temp), { recursive: true });
+      try {
+        await copyFile(locate(from.bucket, from.key).file, paths.temp);
+        await commit(paths, { ...stored, Metadata: { ...(stored.Metadata || {}), ...(metadata || {}) } });
+      } finally {
+        await rm(paths.temp, { force: true });
+      }
+    },
+
+    async delete(bucket, key) {
+      await remove(bucket, key);
+      return { $metadata: {} };
+    },
+
+    async deleteMany(bucket, keys) {
+      const failed: Array<{ key: string; message: string }> = [];
+      for (const key of keys) {
+        await remove(bucket, key).catch((err) => failed.push({ key, message: err?.message || String(err) }));
+      }
+      return failed;
+    },
+
+    async *list(bucket, prefix = '') {
+      const keys: string[] = [];
+      const walk = async (path: string, keyPrefix: string) => {
+        let entries;
+        try {
+          entries = await readdir(path, { withFileTypes: true });
+        } catch (err: any) {
+          if (err?.code === 'ENOENT') return;
+          throw err;
+        }
+
+        for (const entry of entries) {
+          const key = `${keyPrefix}${entry.name}`;
+          if (entry.isDirectory()) {
+            const dirKey = `${key}/`;
+            if (key !== LOCAL_META_DIR && (dirKey.startsWith(prefix) || prefix.startsWith(dirKey))) {
+              await walk(join(path, entry.name), dirKey);
+            }
+          } else if (entry.isFile() && key.startsWith(prefix)) {
+            keys.push(key);
+          }
+        }
+      };
+      await walk(resolve(root, options.directories?.[bucket.key] ?? bucket.name), '');
+
+      for (const key of keys.sort()) {
+        const object = await head(bucket, key);
+        if (object) yield { Key: key, Size: object.ContentLength, LastModified: object.LastModified, ETag: object.ETag };
+      }
+    },
+
+    /**
+     * `${baseUrl}/${bucketKey}/${key}?exp=…&token=…`; like S3, the response-* overrides are signed too.
+     */
+    async signGetUrl(bucket, key, { expiresIn, responseContentDisposition, responseContentType, responseCacheControl }) {
+      const url = new URL(`${trimSlash(options.baseUrl)}/${bucket.key}/${key.split('/').map(encodeURIComponent).join('/')}`);
+      const exp = Math.floor(Date.now() / 1000) + expiresIn;
+      url.searchParams.set('exp', String(exp));
+      if (responseContentDisposition) url.searchParams.set('response-content-disposition', responseContentDisposition);
+      if (responseContentType) url.searchParams.set('response-content-type', responseContentType);
+      if (responseCacheControl) url.searchParams.set('response-cache-control', responseCacheControl);
+      url.searchParams.set('token', localUrlToken(options.secret, url, exp));
+      return url.toString();
+    }
+  };
+
+  /**
+   * Serve GET/HEAD requests below `local.baseUrl`. Private buckets need a valid token.
+   * Resolves false for requests outside baseUrl, so they can fall through to the app.
+   */
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const base = new URL(options.baseUrl);
+    const url = new URL(req.url || '/', base);
+    const basePath = trimSlash(base.pathname);
+    if ((req.method !== 'GET' && req.method !== 'HEAD') || !url.pathname.startsWith(`${basePath}/`)) {
+      return false;
+    }
+
+    const reply = (status: number, message: string) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.end(message);
+      return true;
+    };
+
+    const [bucketKey, ...rest] = url.pathname.slice(basePath.length + 1).split('/');
+    const bucket = resolveBucket(config, decodeKey(bucketKey));
+    const key = decodeKey(rest.join('/'));
+    if (!bucket || !key) return reply(404, 'Not Found');
+
+    const isPrivate = isPrivateBucket(config, bucket.key);
+    if (isPrivate) {
+      const exp = Number(url.searchParams.get('exp'));
+      const valid =
+        Number.isFinite(exp) &&
+        exp >= Math.floor(Date.now() / 1000) &&
+        safeEqual(url.searchParams.get('token') || '', localUrlToken(options.secret, url, exp));
+      if (!valid) return reply(403, 'Forbidden');
+    }
+
+    let object;
+    try {
+      object = await head(bucket, key);
+    } catch {
+      object = null; // keys the driver cannot store
+    }
+    if (!object) return reply(404, 'Not Found');
+
+    const override = (param: string) => (isPrivate && url.searchParams.get(param)) || undefined;
+    const headers: Record<string, string | undefined> = {
+      'Content-Type': override('response-content-type') || object.ContentType || 'application/octet-stream',
+      'Content-Length': String(object.ContentLength ?? 0),
+      'Cache-Control': override('response-cache-control') || object.CacheControl,
+      'Content-Disposition': override('response-content-disposition') || object.ContentDisposition,
+      'Content-Language': object.ContentLanguage,
+      'Last-Modified': object.LastModified?.toUTCString(),
+      ETag: object.ETag,
+      'X-Content-Type-Options': 'nosniff'
+    };
+    for (const [name, value] of Object.entries(headers)) {
+      if (value) res.setHeader(name, value);
+    }
+
+    res.statusCode = 200;
+    if (req.method === 'HEAD') {
+      res.end();
+      return true;
+    }
+    await pipeline(createReadStream(locate(bucket, key).file), res);
+    return true;
+  };
+
+  return { ...driver, handleRequest };
+};
+
+/**
+ * The driver selected by `driver` ("s3" unless configured otherwise).
+ */
+const createDriver = (
+  config: StrapiR2.DefaultOptions
+): StrapiR2.StorageDriver & { handleRequest?: ReturnType<typeof createLocalDriver>['handleRequest'] } => {
+  const driver = config.driver ?? 's3';
+  if (typeof driver === 'object') return driver;
+  if (driver === 'local') return createLocalDriver(config, config.local as StrapiR2.LocalDriverOptions);
+  return createS3Driver(config);
+};
+
+// ─────────────────────────────────────────────────────────────
+// Usage & quotas
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Default usage store. Per process and lost on restart; totals are listed again then.
+ */
+const createMemoryUsageStore = (): StrapiR2.UsageStore => {
+  const entries = new Map<string, StrapiR2.Usage>();
+  const id = (bucket: string, prefix: string) => JSON.stringify([bucket, prefix]);
+
+  return {
+    get: (bucket, prefix) => entries.get(id(bucket, prefix)),
+    set: (bucket, prefix, usage) => {
+      entries.set(id(bucket, prefix), { ...usage });
+    },
+    increment: (bucket, prefix, delta) => {
+      const entry = entries.get(id(bucket, prefix));
+      if (!entry) return;
+      entry.objects += delta.objects;
+      entry.bytes += delta.bytes;
+    }
+  };
+};
+
+/**
+ * Limits an upload to `key` is checked against: the bucket's, every matching prefix and the tenant's.
+ */
+const getQuotaScopes = (
+  bucket: StrapiR2.ResolvedBucket,
+  key: string,
+  tenantQuota?: { prefix: string; limits?: StrapiR2.QuotaLimits }
+): Array<StrapiR2.QuotaLimits & { prefix: string }> => {
+  const quota = bucket.options.quota;
+  const scopes: Array<StrapiR2.QuotaLimits & { prefix: string }> = [];
+
+  if (quota?.maxBytes !== undefined || quota?.maxObjects !== undefined) {
+    scopes.push({ prefix: '', maxBytes: quota.maxBytes, maxObjects: quota.maxObjects });
+  }
+  for (const [prefix, limits] of Object.entries(quota?.prefixes || {})) {
+    if (key.startsWith(prefix)) scopes.push({ ...limits, prefix });
+  }
+  if (tenantQuota?.limits) {
+    scopes.push({ ...tenantQuota.limits, prefix: tenantQuota.prefix });
+  }
+  return scopes;
+};
+
+// ─────────────────────────────────────────────────────────────
+// Configuration helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Every problem with the configuration, so init() can report them all at once.
+ */
+const validateConfig = (config: StrapiR2.DefaultOptions, baseUrl?: string | null): string[] => {
+  const problems: string[] = [];
+  const buckets = config.buckets || {};
+  const bucketKeys = Object.keys(buckets);
+  const checkUrl = (label: string, url: unknown) => {
+    if (typeof url !== 'string' || !assertUrlProtocol(url)) {
+      problems.push(`${label} must be a URL with protocol, e.g. "https://…" (got ${JSON.stringify(url)})`);
+    }
+  };
+  const checkBucketRef = (label: string, bucketKey?: string) => {
+    if (bucketKey && !buckets[bucketKey]) problems.push(`${label} refers to unknown bucket '${bucketKey}'`);
+  };
+  const checkLimits = (label: string, limits?: StrapiR2.QuotaLimits) => {
+    for (const name of ['maxBytes', 'maxObjects'] as const) {
+      const value = limits?.[name];
+      if (value !== undefined && !(typeof value === 'number' && value >= 0)) {
+        problems.push(`${label}.${name} must be a number >= 0 (got ${JSON.stringify(value)})`);
+      }
+    }
+  };
+
+  if (bucketKeys.length === 0) problems.push('buckets: at least one bucket is required');
+
+  const driver = config.driver ?? 's3';
+  if (driver === 'local') {
+    if (!config.local?.root) problems.push('local.root: a directory is required for driver "local"');
+    if (!config.local?.secret) problems.push('local.secret: required for driver "local" (signs private URLs)');
+    checkUrl('local.baseUrl', config.local?.baseUrl);
+  } else if (driver !== 's3' && typeof driver !== 'object') {
+    problems.push(`driver must be "s3", "local" or a storage driver object (got ${JSON.stringify(driver)})`);
+  }
+
+  for (const bucketKey of bucketKeys) {
+    const bucket = resolveBucket(config, bucketKey);
+    if (!bucket) {
+      problems.push(`buckets.${bucketKey}: bucket name is missing (is the env variable set?)`);
+      continue;
+    }
+
+    // Only the S3 driver talks to an endpoint
+    if (driver === 's3' && !bucket.endpoint) {
+      problems.push(`buckets.${bucketKey}: no endpoint (set endpoint at the root or on the bucket)`);
+    } else if (driver === 's3') {
+      checkUrl(`buckets.${bucketKey}.endpoint`, bucket.endpoint);
+    }
+
+    const options = bucket.options;
+    if (options.tokenAuth) checkUrl(`buckets.${bucketKey}.tokenAuth.domain`, options.tokenAuth.domain);
+    if (options.trash) checkBucketRef(`buckets.${bucketKey}.trash.bucket`, options.trash.bucket);
+    if (options.versions) checkBucketRef(`buckets.${bucketKey}.versions.bucket`, options.versions.bucket);
+    if (options.contentAddressed && options.keyTemplate && !options.keyTemplate.includes('{sha256}')) {
+      problems.push(`buckets.${bucketKey}.keyTemplate must contain {sha256} on a content-addressed bucket`);
+    }
+
+    for (const [name, value] of Object.entries(options.imageResizing?.defaults || {})) {
+      const problem = transformOptionProblem(name, value);
+      if (problem) problems.push(`buckets.${bucketKey}.imageResizing.defaults: ${problem}`);
+    }
+
+    checkLimits(`buckets.${bucketKey}.quota`, options.quota);
+    for (const [prefix, limits] of Object.entries(options.quota?.prefixes || {})) {
+      checkLimits(`buckets.${bucketKey}.quota.prefixes["${prefix}"]`, limits);
+    }
+
+    for (const problem of checkEncryption(config, bucket)) {
+      problems.push(`buckets.${bucketKey}.encryption: ${problem}`);
+    }
+  }
+
+  checkBucketRef('defaultBucket', config.defaultBucket);
+  checkBucketRef('trash.bucket', config.trash?.bucket);
+  checkBucketRef('versions.bucket', config.versions?.bucket);
+
+  for (const [bucketKey, domain] of Object.entries(config.publicDomains || {})) {
+    checkBucketRef(`publicDomains.${bucketKey}`, bucketKey);
+    checkUrl(`publicDomains.${bucketKey}`, domain);
+  }
+
+  if (baseUrl) checkUrl('baseUrl', baseUrl);
+
+  (config.routes || []).forEach((route, index) => {
+    if (typeof route !== 'function') checkBucketRef(`routes[${index}].bucket`, route.bucket);
+  });
+
+  if (config.signedUrlExpires && (config.signedUrlExpires < 1 || config.signedUrlExpires > 604800)) {
+    problems.push('signedUrlExpires must be between 1 and 604800 seconds (7 days)');
+  }
+
+  return problems;
+};
+
+const envKeyToBucketKey = (suffix: string): string =>
+  suffix.toLowerCase().replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+/**
+ * Build `buckets` and `publicDomains` from CF_BUCKETS_<KEY> and CF_PUBLIC_ACCESS_URL_<KEY>.
+ * CF_BUCKETS_INTERNAL_ASSETS becomes the bucket key "internalAssets". Empty values are skipped.
+ */
+const loadEnvConfig = (
+  env: Record<string, string | undefined> = process.env
+): { buckets: Record<string, string>; publicDomains: Record<string, string> } => {
+  const buckets: Record<string, string> = {};
+  const publicDomains: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(env)) {
+    if (!value) continue;
+    if (name.startsWith('CF_BUCKETS_')) {
+      buckets[envKeyToBucketKey(name.slice('CF_BUCKETS_'.length))] = value;
+    } else if (name.startsWith('CF_PUBLIC_ACCESS_URL_')) {
+      publicDomains[envKeyToBucketKey(name.slice('CF_PUBLIC_ACCESS_URL_'.length))] = value;
+    }
+  }
+
+  return { buckets, publicDomains };
+};
+
+/**
+ * `img-src`/`media-src` entries for strapi::security: Strapi's defaults plus every origin the
+ * provider hands out URLs for (public domains, baseUrl, token domains, presigned R2 hosts).
+ */
+const getCspDirectives = (
+  initOptions: StrapiR2.InitOptions
+): { 'img-src': string[]; 'media-src': string[] } => {
+  const config = getConfig(initOptions);
+  const origins = new Set<string>();
+  const addOrigin = (url?: string | null) => {
+    if (!url) return;
+    try {
+      origins.add(new URL(url).origin);
+    } catch {
+      // Invalid URLs are reported by init()
+    }
+  };
+
+  Object.values(config.publicDomains || {}).forEach(addOrigin);
+  addOrigin((initOptions as any).baseUrl);
+
+  for (const bucketKey of Object.keys(config.buckets || {})) {
+    const bucket = resolveBucket(config, bucketKey);
+    if (!bucket || !isPrivateBucket(config, bucketKey)) continue;
+
+    if (bucket.options.tokenAuth) {
+      addOrigin(bucket.options.tokenAuth.domain);
+    } else if (config.driver === 'local') {
+      addOrigin(config.local?.baseUrl);
+    } else if (bucket.endpoint) {
+      // Presigned URLs: path-style on the endpoint, or virtual-hosted on <bucket>.<endpoint host>
+      let endpoint: URL;
+      try {
+        endpoint = new URL(bucket.endpoint);
+      } catch {
+        continue;
+      }
+      addOrigin(config.forcePathStyle ? endpoint.origin : `${endpoint.protocol}//${bucket.name}.${endpoint.host}`);
+    }
+  }
+
+  const sources = ["'self'", 'data:', 'blob:', 'market-assets.strapi.io', ...origins];
+  return { 'img-src': sources, 'media-src': [...sources] };
+};
+
+// ─────────────────────────────────────────────────────────────
+// Provider
+// ─────────────────────────────────────────────────────────────
+
+const provider = {
+  name: "strapi-provider-cloudflare-r2-advanced",
+  displayName: "Cloudflare R2 Advanced",
+  verifyToken,
+  loadEnvConfig,
+  getCspDirectives,
+  init(initOptions: StrapiR2.InitOptions) {
+    const { baseUrl, rootPath } = initOptions as any;
+
+    const config = getConfig(initOptions);
+
+    const problems = validateConfig(config, baseUrl);
+    if (problems.length) {
+      throw new Error(
+        `[strapi-provider-cloudflare-r2-advanced] init(): Invalid configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`
+      );
+    }
+
+    const { logger: configuredLogger, hooks = {}, metrics } = config;
+    const driver = createDriver(config);
+
+    const getBucket = (bucketKey: string, context: string): StrapiR2.ResolvedBucket => {
+      const bucket = resolveBucket(config, bucketKey);
+      if (!bucket) {
+        throw new Error(
+          `[strapi-provider-cloudflare-r2-advanced] ${context}Unknown bucket '${bucketKey}'.`
+        );
+      }
+      return bucket;
+    };
+
+    // Direct uploads hand out presigned S3 requests, other drivers cannot take them
+    const getClient = (bucket: StrapiR2.ResolvedBucket, context: string): S3Client => {
+      if (!driver.client) {
+        throw new Error(
+          `[strapi-provider-cloudflare-r2-advanced] ${context}Not supported by the '${driver.name}' storage driver.`
+        );
+      }
+      return driver.client(bucket);
+    };
+
+    // Without a configured secret, tokens only verify on the instance that issued them
+    const directUploadSecret = config.directUploadSecret || randomBytes(32).toString('hex');
+
+    const readDirectUploadToken = (token: string, context: string): StrapiR2.DirectUploadDescriptor => {
+      const descriptor = readDirectUpload(directUploadSecret, token);
+      if (!descriptor) {
+        throw new UploadPolicyError(
+          `[strapi-provider-cloudflare-r2-advanced] ${context}Invalid or expired direct upload token.`
+        );
+      }
+      return descriptor;
+    };
+
+    const filePrefix = rootPath ? `${trimSlash(rootPath)}/` : '';
+
+    const getFileKeyForUpload = (file: StrapiR2.File, context: KeyContext = {}): string => {
+      const key = getObjectKey(file, config, context);
+      return `${filePrefix}${context.tenantPrefix || ''}${key}`;
+    };
+
+    type Tenant = { prefix: string; buckets?: string[]; quota?: StrapiR2.QuotaLimits };
+
+    /**
+     * The caller's scope from the `tenant` resolver, prefix normalized to "a/b/".
+     * Null without a resolver or for trusted callers.
+     */
+    const resolveTenant = async (
+      file: StrapiR2.File,
+      operation: 'upload' | 'move' | 'replace'
+    ): Promise<Tenant | null> => {
+      if (!config.tenant) return null;
+
+      const scope = await config.tenant(file, { operation });
+      if (!scope) return null;
+
+      const prefix = normalizeFolder(scope.prefix);
+      if (!prefix) {
+        throw new Error(
+          `[strapi-provider-cloudflare-r2-advanced] ${operation}(): The tenant resolver returned an empty prefix.`
+        );
+      }
+      return { prefix: `${prefix}/`, buckets: scope.buckets, quota: scope.quota };
+    };
+
+    /**
+     * Reject buckets the tenant may not use and keys outside its prefix.
+     */
+    const assertTenantAccess = (tenant: Tenant | null, bucketKey: string, key: string | null) => {
+      if (!tenant) return;
+
+      if (tenant.buckets && !tenant.buckets.includes(bucketKey)) {
+        throw new TenantAccessError(`Bucket '${bucketKey}' is not available to this tenant.`, {
+          bucket: bucketKey
+        });
+      }
+      if (key !== null && !key.startsWith(`${filePrefix}${tenant.prefix}`)) {
+        throw new TenantAccessError(`'${key}' is outside the tenant's folder.`, { bucket: bucketKey, key });
+      }
+    };
+
+    // A root keyTemplate does not apply to content-addressed buckets: their keys must stay content hashes
+    const getKeyTemplate = (bucket: StrapiR2.ResolvedBucket): string | undefined =>
+      bucket.options.keyTemplate ||
+      (bucket.options.contentAddressed ? '{sha256}{ext}' : config.keyTemplate);
+
+    /**
+     * Strapi's global sizeLimit plus the bucket's maxFileSize / policy.maxSize (all bytes).
+     */
+    const assertSizeLimit = (file: StrapiR2.File, bucketKey: string, size: number, sizeLimit?: number) => {
+      const bucketOptions = resolveBucket(config, bucketKey)?.options;
+      const limits = [sizeLimit, bucketOptions?.maxFileSize, bucketOptions?.policy?.maxSize].filter(
+        (limit): limit is number => typeof limit === 'number' && limit > 0
+      );
+      if (limits.length === 0) return;
+
+      const limit = Math.min(...limits);
+      if (size > limit) {
+        throw new PayloadTooLargeError(
+          `${file.name} exceeds size limit of ${bytesToHumanReadable(limit)}.`,
+          { bucket: bucketKey, sizeLimit: limit }
+        );
+      }
+    };
+
+    // bucket/key/options -> signed URL, in insertion (= LRU) order
+    const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+    const cacheOptions: StrapiR2.SignedUrlCacheOptions | null =
+      config.signedUrlCache === false
+        ? null
+        : typeof config.signedUrlCache === 'object'
+          ? config.signedUrlCache
+          : {};
+
+    /**
+     * Presigned GET, reused from the cache until it gets close to expiry.
+     * Identical URLs let browsers and CDNs cache private files.
+     */
+    const signGetUrl = async (
+      bucketKey: string,
+      key: string,
+      options: StrapiR2.SignedUrlOptions = {},
+      sseKeyId?: string | null
+    ): Promise<string> => {
+      const bucket = getBucket(bucketKey, 'getSignedUrl(): ');
+      const sse = resolveSseKey(bucket, sseKeyId);
+      const expiresIn = options.expiresIn || config.signedUrlExpires || 3600;
+      const input = {
+        Bucket: bucket.name,
+        Key: key,
+        ResponseContentDisposition: options.responseContentDisposition,
+        ResponseContentType: options.responseContentType,
+        ResponseCacheControl: options.responseCacheControl
+      };
+
+      const tokenAuth = bucket.options.tokenAuth;
+      const effectiveExpiresIn = tokenAuth?.expiresIn || expiresIn;
+
+      const useCache = !!cacheOptions && options.cache !== false;
+      const cacheKey = JSON.stringify([bucketKey, effectiveExpiresIn, input, sse?.id]);
+      const now = Date.now();
+
+      if (useCache) {
+        const cached = signedUrlCache.get(cacheKey);
+        const minRemaining = (cacheOptions!.minRemaining ?? effectiveExpiresIn * 0.2) * 1000;
+        if (cached && cached.expiresAt - now > minRemaining) {
+          // Refresh LRU position
+          signedUrlCache.delete(cacheKey);
+          signedUrlCache.set(cacheKey, cached);
+          return cached.url;
+        }
+      }
+
+      // Custom domain + HMAC token instead of an S3 presigned URL (response overrides do not apply)
+      const url = tokenAuth
+        ? createTokenUrl(tokenAuth, key, effectiveExpiresIn)
+        : await driver.signGetUrl(bucket, key, { ...options, expiresIn, sse });
+
+      if (useCache) {
+        signedUrlCache.delete(cacheKey);
+        signedUrlCache.set(cacheKey, { url, expiresAt: now + effectiveExpiresIn * 1000 });
+
+        const maxEntries = cacheOptions!.maxEntries ?? 1000;
+        while (signedUrlCache.size > maxEntries) {
+          signedUrlCache.delete(signedUrlCache.keys().next().value as string);
+        }
+      }
+
+      return url;
+    };
+
+    const resolveFileUrl = async (
+      bucketKey: string,
+      bucketName: string,
+      key: string,
+      isPrivate: boolean,
+      sseKeyId?: string | null
+    ) => {
+      // URL: we mostly ignore uploadResult.Location and use our deterministic rules
+      if (baseUrl && !isPrivate) {
+        const cleanKey = trimLeadingSlash(key);
+        return `${trimSlash(baseUrl)}/${cleanKey}`;
+      }
+
+      return buildFileUrl({
+        sign: (cleanKey) => signGetUrl(bucketKey, cleanKey, {}, sseKeyId),
+        config,
+        bucketKey,
+        bucketName,
+        key,
+        isPrivate
+      });
+    };
+
+    // Emits 'progress' (UploadProgress) for every upload
+    const events = new EventEmitter();
+
+    // Strapi's logger unless one is configured
+    const getLogger = (): Partial<NonNullable<S3ClientConfig['logger']>> | undefined =>
+      configuredLogger ?? (globalThis as any).strapi?.log;
+
+    const BEFORE_HOOKS: Partial<Record<StrapiR2.Operation, keyof StrapiR2.Hooks>> = {
+      upload: 'beforeUpload',
+      delete: 'beforeDelete'
+    };
+    const AFTER_HOOKS: Record<StrapiR2.Operation, keyof StrapiR2.Hooks> = {
+      upload: 'afterUpload',
+      delete: 'afterDelete',
+      move: 'afterMove'
+    };
+
+    /**
+     * Run an after-hook, onError or a metrics call; failures are logged, never thrown.
+     */
+    const quietly = async (what: string, fn: () => void | Promise<void>) => {
+      try {
+        await fn();
+      } catch (err: any) {
+        getLogger()?.warn?.(`[strapi-provider-cloudflare-r2-advanced] ${what} failed: ${err?.message || err}`);
+      }
+    };
+
+    /**
+     * Runs the before* hook (which may throw to cancel). Returns the start time for finishOperation().
+     */
+    const startOperation = async (event: StrapiR2.OperationEvent): Promise<number> => {
+      const name = BEFORE_HOOKS[event.operation];
+      if (name) await hooks[name]?.(event);
+      return Date.now();
+    };
+
+    /**
+     * Log, record metrics and run the after* hook, or onError when `error` is given.
+     */
+    const finishOperation = async (event: StrapiR2.OperationEvent, startedAt: number, error?: unknown) => {
+      const outcome = error ? 'error' : 'success';
+      const done: StrapiR2.OperationEvent = {
+        ...event,
+        durationMs: Date.now() - startedAt,
+        outcome,
+        ...(error ? { error: error as Error } : {})
+      };
+      const tags: StrapiR2.MetricTags = { operation: event.operation, bucket: event.bucket, outcome };
+
+      if (metrics) {
+        await quietly('metrics', () => {
+          metrics.increment('r2_operations_total', 1, tags);
+          metrics.observe('r2_operation_duration_ms', done.durationMs!, tags);
+          if (event.operation === 'upload' && event.bytes !== undefined) {
+            metrics.observe('r2_upload_bytes', event.bytes, tags);
+          }
+        });
+      }
+
+      const what = `${event.operation} of '${event.key}' in bucket '${event.bucket}'`;
+      if (error) {
+        getLogger()?.error?.(
+          `[strapi-provider-cloudflare-r2-advanced] ${what} failed after ${done.durationMs} ms: ${(error as any)?.message || error}`
+        );
+        await quietly('onError hook', () => hooks.onError?.(done));
+        return;
+      }
+
+      getLogger()?.debug?.(
+        `[strapi-provider-cloudflare-r2-advanced] ${what} took ${done.durationMs} ms` +
+        (event.bytes !== undefined ? ` (${event.bytes} bytes)` : '')
+      );
+      const hook = hooks[AFTER_HOOKS[event.operation]];
+      await quietly(`${AFTER_HOOKS[event.operation]} hook`, () => hook?.(done));
+    };
+
+    /**
+     * Wrap one object operation with hooks, logging and metrics.
+     */
+    const track = async <T>(
+      event: StrapiR2.OperationEvent,
+      run: () => Promise<T>,
+      bytesOf?: (result: T) => number | undefined
+    ): Promise<T> => {
+      const startedAt = await startOperation(event);
+      try {
+        const result = await run();
+        await finishOperation({ ...event, bytes: bytesOf?.(result) ?? event.bytes }, startedAt);
+        return result;
+      } catch (err) {
+        await finishOperation(event, startedAt, err);
+        throw err;
+      }
+    };
+
+    /**
+     * Upload through the driver with the bucket's multipart tuning, progress events and abort support.
+     */
+    const runUpload = async (
+      file: StrapiR2.File,
+      bucket: StrapiR2.ResolvedBucket,
+      params: PutObjectCommandInput,
+      options: StrapiR2.UploadOptions = {}
+    ): Promise<{ ETag?: string }> => {
+      const multipart = { ...(config.multipart || {}), ...(bucket.options.multipart || {}) };
+      const { signal, onProgress } = options;
+
+      if (signal?.aborted) {
+        throw Object.assign(new Error('Upload aborted.'), { name: 'AbortError' });
+      }
+
+      let last: StrapiR2.UploadProgress = { file: file.name, bucket: bucket.key, key: params.Key as string };
+
+      try {
+        return await driver.upload(bucket, params, {
+          multipart,
+          signal,
+          onProgress: (progress) => {
+            last = { ...last, loaded: progress.loaded, total: progress.total, part: progress.part };
+            events.emit('progress', last);
+            onProgress?.(last);
+          }
+        });
+      } catch (err: any) {
+        const reason = err?.name === 'AbortError' ? 'was aborted' : `failed: ${err?.message || err}`;
+        const where = last.part ? ` at part ${last.part} (${last.loaded ?? 0} bytes sent)` : '';
+        const error = new Error(
+          `[strapi-provider-cloudflare-r2-advanced] Upload of '${params.Key}' to bucket '${bucket.key}' ${reason}${where}.`
+        );
+        error.name = err?.name === 'AbortError' ? 'AbortError' : error.name;
+        (error as any).cause = err;
+        (error as any).progress = last;
+        throw error;
+      }
+    };
+
+    const concurrency = config.concurrency || 4;
+
+    /**
+     * HEAD an object. Returns null for a real 404 and rethrows anything else.
+     * `sseKeyId` as in resolveSseKey().
+     */
+    const headObject = (bucket: StrapiR2.ResolvedBucket, key: string, sseKeyId?: string | null) =>
+      driver.head(bucket, key, { sse: resolveSseKey(bucket, sseKeyId) });
+
+    /**
+     * Copy one object through the driver.
+     *
+     * SSE-C: the copy keeps the source's key when the target bucket has it, and uses the target's
+     * active key otherwise (or `to.sseKeyId`). Returns the target's key ID.
+     */
+    const copyObject = async (
+      from: { bucket: StrapiR2.ResolvedBucket; key: string; sseKeyId?: string | null },
+      to: { bucket: StrapiR2.ResolvedBucket; key: string; sseKeyId?: string },
+      metadata?: Record<string, string> // merged into the source's x-amz-meta-*
+    ): Promise<string | undefined> => {
+      const sourceSse = resolveSseKey(from.bucket, from.sseKeyId);
+      const targetEncryption = to.bucket.options.encryption;
+      if (sourceSse && !targetEncryption) {
+        throw new Error(
+          `[strapi-provider-cloudflare-r2-advanced] Refusing to copy an encrypted object from '${from.bucket.key}' into unencrypted bucket '${to.bucket.key}'.`
+        );
+      }
+      const targetSse = resolveSseKey(to.bucket, to.sseKeyId ?? copyKeyId(to.bucket, sourceSse?.id));
+
+      await driver.copy(
+        { bucket: from.bucket, key: from.key },
+        { bucket: to.bucket, key: to.key },
+        { sourceSse, targetSse, metadata }
+      );
+      return targetSse?.id;
+    };
+
+    /**
+     * Best-effort delete used after the new content is already in place (never throws).
+     */
+    const deleteQuietly = async (objects: Array<{ bucket?: string; key?: string; size?: number }>): Promise<void> => {
+      await Promise.allSettled(
+        objects.map(async ({ bucket, key, size }) => {
+          if (!bucket || !key) return;
+          await driver.delete(getBucket(bucket, ''), key);
+          await recordUsage(getBucket(bucket, ''), key, -1, size);
+        })
+      );
+    };
+
+    /**
+     * All objects under a prefix.
+     */
+    const listObjects = (bucket: StrapiR2.ResolvedBucket, prefix = ''): AsyncIterable<_Object> =>
+      driver.list(bucket, prefix);
+
+    /**
+     * Delete in chunks of 1000. Never throws; failed keys are returned.
+     */
+    const deleteKeys = async (
+      bucketKey: string,
+      keys: string[]
+    ): Promise<{ deleted: number; errors: Array<{ key: string; message: string }> }> => {
+      const bucket = getBucket(bucketKey, '');
+      let deleted = 0;
+      const errors: Array<{ key: string; message: string }> = [];
+
+      await mapWithConcurrency(chunk(keys, 1000), concurrency, async (batch) => {
+        try {
+          const failed = await driver.deleteMany(bucket, batch);
+          deleted += batch.length - failed.length;
+          errors.push(...failed);
+        } catch (err: any) {
+          errors.push(...batch.map((key) => ({ key, message: err?.message || String(err) })));
+        }
+      });
+
+      return { deleted, errors };
+    };
+
+    const usageStore = config.usage?.store || createMemoryUsageStore();
+    const usageMaxAge = (config.usage?.maxAge ?? 900) * 1000;
+
+    /**
+     * Trash and version copies stored in this bucket; they never count towards usage.
+     */
+    const getHousekeepingPrefixes = (bucket: StrapiR2.ResolvedBucket): string[] => {
+      const prefixes: string[] = [];
+      for (const bucketKey of Object.keys(config.buckets || {})) {
+        const trash = getTrash(bucketKey);
+        if (trash && resolveBucket(config, trash.bucket || bucketKey)?.name === bucket.name) {
+          prefixes.push(`${[getTrashPrefix(trash), bucketKey].filter(Boolean).join('/')}/`);
+        }
+
+        const versioning = getVersioning(bucketKey);
+        const versionsPrefix = versioning && trimSlash(trimLeadingSlash(versioning.prefix ?? '_versions'));
+        if (versionsPrefix && resolveBucket(config, versioning.bucket || bucketKey)?.name === bucket.name) {
+          prefixes.push(`${versionsPrefix}/`);
+        }
+      }
+      return prefixes;
+    };
+
+    /**
+     * List a bucket (or prefix) and store the totals. `excludeKey` is left out, for an
+     * object that is recorded right after the check.
+     */
+    const countUsage = async (
+      bucket: StrapiR2.ResolvedBucket,
+      prefix: string,
+      excludeKey?: string
+    ): Promise<StrapiR2.Usage> => {
+      const housekeeping = getHousekeepingPrefixes(bucket);
+      const usage = { objects: 0, bytes: 0, updatedAt: Date.now() };
+      for await (const object of listObjects(bucket, prefix)) {
+        if (!object.Key || object.Key === excludeKey) continue;
+        if (housekeeping.some((skipped) => object.Key!.startsWith(skipped))) continue;
+
+        usage.objects += 1;
+        usage.bytes += object.Size || 0;
+      }
+      await usageStore.set(bucket.key, prefix, usage);
+      return usage;
+    };
+
+    const quotaScopes = (bucket: StrapiR2.ResolvedBucket, key: string, tenant: Tenant | null) =>
+      getQuotaScopes(bucket, key, tenant ? { prefix: `${filePrefix}${tenant.prefix}`, limits: tenant.quota } : undefined);
+
+    /**
+     * Reject an upload to `key` when one of its quota scopes would be exceeded.
+     * Concurrent uploads can overshoot a limit by what they upload together.
+     */
+    const checkQuota = async (
+      file: StrapiR2.File,
+      bucket: StrapiR2.ResolvedBucket,
+      key: string,
+      bytes: number,
+      tenant: Tenant | null,
+      excludeKey?: string
+    ): Promise<void> => {
+      for (const scope of quotaScopes(bucket, key, tenant)) {
+        const stored = await usageStore.get(bucket.key, scope.prefix);
+        const usage =
+          stored && Date.now() - (stored.updatedAt ?? 0) < usageMaxAge
+            ? stored
+            : await countUsage(bucket, scope.prefix, excludeKey);
+        const details = { bucket: bucket.key, ...scope, usage: { objects: usage.objects, bytes: usage.bytes } };
+        const where = scope.prefix ? `'${scope.prefix}' in bucket '${bucket.key}'` : `bucket '${bucket.key}'`;
+
+        if (scope.maxObjects !== undefined && usage.objects + 1 > scope.maxObjects) {
+          throw new PayloadTooLargeError(`${file.name} exceeds the quota of ${scope.maxObjects} files for ${where}.`, details);
+        }
+        if (scope.maxBytes !== undefined && usage.bytes + bytes > scope.maxBytes) {
+          throw new PayloadTooLargeError(
+            `${file.name} exceeds the storage quota of ${bytesToHumanReadable(scope.maxBytes)} for ${where}.`,
+            details
+          );
+        }
+      }
+    };
+
+    /**
+     * Apply an object stored (+1) or removed (-1) at `key` to every total it counts towards:
+     * the whole bucket, matching quota prefixes and each folder above it (tenant folders included).
+     * Without a known size the totals are marked stale and listed again on the next check.
+     */
+    const recordUsage = async (bucket: StrapiR2.ResolvedBucket, key: string, objects: 1 | -1, bytes?: number) => {
+      if (getHousekeepingPrefixes(bucket).some((prefix) => key.startsWith(prefix))) return;
+
+      const prefixes = new Set(['', ...getQuotaScopes(bucket, key).map((scope) => scope.prefix)]);
+      for (let slash = key.indexOf('/'); slash >= 0; slash = key.indexOf('/', slash + 1)) {
+        prefixes.add(key.slice(0, slash + 1));
+      }
+
+      await Promise.all(
+        [...prefixes].map(async (prefix) => {
+          if (typeof bytes === 'number') {
+            await usageStore.increment(bucket.key, prefix, { objects, bytes: objects * bytes });
+            return;
+          }
+          const stored = await usageStore.get(bucket.key, prefix);
+          if (stored) await usageStore.set(bucket.key, prefix, { ...stored, updatedAt: 0 });
+        })
+      );
+    };
+
+    const getTrash = (bucketKey: string): StrapiR2.TrashOptions | null => {
+      const bucketTrash = resolveBucket(config, bucketKey)?.options.trash;
+      if (bucketTrash === false) return null;
+      return bucketTrash || config.trash || null;
+    };
+
+    const getTrashPrefix = (trash: StrapiR2.TrashOptions) =>
+      trimSlash(trimLeadingSlash(trash.prefix ?? '_trash'));
+
+    /**
+     * Deterministic trash location, so restore() only needs the original provider_metadata.
+     */
+    const getTrashLocation = (bucketKey: string, key: string) => {
+      const trash = getTrash(bucketKey);
+      if (!trash) return null;
+
+      return {
+        bucket: getBucket(trash.bucket || bucketKey, 'trash: '),
+        key: [getTrashPrefix(trash), bucketKey, key].filter(Boolean).join('/')
+      };
+    };
+
+    /**
+     * Copy an object into the trash, stamped with deletion time and origin.
+     * 'disabled' when trash is off for the bucket, 'missing' when the object is already gone
+     * (nothing to keep; deleting it still succeeds).
+     */
+    const copyToTrash = async (
+      bucketKey: string,
+      key: string,
+      sseKeyId?: string | null
+    ): Promise<'trashed' | 'disabled' | 'missing'> => {
+      const location = getTrashLocation(bucketKey, key);
+      if (!location) return 'disabled';
+
+      try {
+        await copyObject(
+          { bucket: getBucket(bucketKey, 'trash: '), key, sseKeyId },
+          location,
+          {
+            'deleted-at': new Date().toISOString(),
+            'original-bucket': bucketKey,
+            'original-key': key
+          }
+        );
+      } catch (err) {
+        if (isNotFoundError(err)) return 'missing';
+        throw err;
+      }
+      return 'trashed';
+    };
+
+    const getVersioning = (bucketKey: string): StrapiR2.VersioningOptions | null => {
+      const bucketVersions = resolveBucket(config, bucketKey)?.options.versions;
+      if (bucketVersions === false) return null;
+      return bucketVersions || config.versions || null;
+    };
+
+    /**
+     * Copy the current original + formats to the versions location.
+     * Returns null when versioning is off for the file's bucket.
+     */
+    const archiveVersion = async (file: StrapiR2.File): Promise<StrapiR2.FileVersion | null> => {
+      const meta = file.provider_metadata;
+      if (!meta?.bucket || !meta.key) return null;
+
+      const versioning = getVersioning(meta.bucket);
+      if (!versioning) return null;
+
+      const id = `${Date.now()}-${randomBytes(3).toString('hex')}`;
+      const prefix = trimSlash(trimLeadingSlash(versioning.prefix ?? '_versions'));
+
+      const archive = async (variantMeta: any): Promise<StrapiR2.VersionVariant> => {
+        const versionBucketKey = versioning.bucket || variantMeta.bucket;
+        const versionKey = [prefix, id, variantMeta.key].filter(Boolean).join('/');
+
+        const sseKeyId = await copyObject(
+          { bucket: getBucket(variantMeta.bucket, 'replace(): '), key: variantMeta.key, sseKeyId: variantMeta.sseKeyId ?? null },
+          { bucket: getBucket(versionBucketKey, 'replace(): '), key: versionKey }
+        );
+
+        return {
+          bucket: versionBucketKey,
+          key: versionKey,
+          originalKey: variantMeta.key,
+          ...(sseKeyId ? { sseKeyId } : {})
+        };
+      };
+
+      const formats: StrapiR2.FileVersion['formats'] = {};
+      for (const [name, fmt] of Object.entries<any>(file.formats || {})) {
+        if (!fmt?.provider_metadata?.bucket || !fmt.provider_metadata.key) continue;
+        if (fmt.provider_metadata.synthesized) continue;
+        const { url: _url, ...format } = fmt;
+        formats[name] = { ...(await archive(fmt.provider_metadata)), format };
+      }
+
+      return {
+        id,
+        createdAt: new Date().toISOString(),
+        file: {
+          name: file.name,
+          hash: file.hash,
+          ext: file.ext,
+          mime: file.mime,
+          size: file.size,
+          width: file.width,
+          height: file.height
+        },
+        original: await archive(meta),
+        formats
+      };
+    };
+
+    /**
+     * Record a version on the file and prune the oldest beyond maxVersions.
+     */
+    const pushVersion = async (file: StrapiR2.File, version: StrapiR2.FileVersion) => {
+      const versions: StrapiR2.FileVersion[] = [...(file.provider_metadata?.versions || []), version];
+      const maxVersions = getVersioning(file.provider_metadata!.bucket as string)?.maxVersions;
+
+      const pruned = maxVersions && versions.length > maxVersions ? versions.splice(0, versions.length - maxVersions) : [];
+
+      file.provider_metadata = { ...file.provider_metadata, versions };
+
+      await deleteQuietly(pruned.flatMap((v) => [v.original, ...Object.values(v.formats)]));
+    };
+
+    const getTransformDomain = (bucketKey: string): string | null =>
+      isPrivateBucket(config, bucketKey) ? null : (config.publicDomains?.[bucketKey] as string);
+
+    /**
+     * Transform URL for a synthesized format: the format's own dimensions on the original key.
+     */
+    const synthesizedFormatUrl = (
+      bucketKey: string,
+      key: string,
+      format: { width?: number | null; height?: number | null }
+    ) => {
+      const domain = getTransformDomain(bucketKey)!;
+      const resizing = resolveBucket(config, bucketKey)?.options.imageResizing || {};
+      return buildTransformUrl(domain, key, {
+        ...(resizing.defaults || {}),
+        width: format.width ?? undefined,
+        height: format.height ?? undefined,
+        fit: 'scale-down'
+      });
+    };
+
+    type BucketInfo = { bucketKey: string; bucketName: string; folder?: string };
 
-  // Public bucket with configured public domain
-  if (!isPrivate && publicDomains[bucketKey]) {
-    const publicDomain = trimSlash(publicDomains[bucketKey]);
-    return `${publicDomain}/${cleanKey}`;
-  }
+    // Where recent image originals went, by hash. Strapi's formats ("<format>_<hash>") carry a
+    // different name and size and no folderPath, so routing them on their own could split a file.
+    const routedOriginals = new Map<string, { info: BucketInfo; expiresAt: number }>();
 
-  // Private bucket → signed URL via v3
-  if (isPrivate) {
-    const command = new GetObjectCommand({
-      Bucket: bucketName,
-      Key: cleanKey
-    });
+    /**
+     * Bucket and route folder for an upload: a format goes where its original went.
+     */
+    const resolveUploadBucket = (file: StrapiR2.File): BucketInfo => {
+      const hash = file.hash || '';
+      const now = Date.now();
+      for (let i = hash.indexOf('_'); i > 0; i = hash.indexOf('_', i + 1)) {
+        const original = routedOriginals.get(hash.slice(i + 1));
+        if (original && original.expiresAt >= now) return original.info;
+      }
 
-    const signedUrl = await getSignedUrl(s3Client, command, {
-      expiresIn: config.signedUrlExpires || 3600
-    });
+      const info = getBucketInfo(file, config);
+      if (hash && (file.mime || '').startsWith('image/')) {
+        for (const [key, entry] of routedOriginals) {
+          if (entry.expiresAt < now) routedOriginals.delete(key);
+        }
+        routedOriginals.set(hash, { info, expiresAt: now + PENDING_ORIGINAL_TTL });
+      }
+      return info;
+    };
 
-    return signedUrl;
-  }
+    type PendingOriginal = { bucketKey: string; formats: string[]; key: Promise<string | null>; expiresAt: number };
 
-  // Fallback: endpoint/bucket/key (works if bucket is public)
-  if (!endpoint) {
-    throw new Error(
-      '[strapi-provider-cloudflare-r2-advanced] Missing `endpoint` in providerOptions.'
-    );
-  }
+    // Image originals uploading into buckets that synthesize formats, by hash. Strapi starts the
+    // original's upload before it generates the formats, which are named "<format>_<hash>".
+    const pendingOriginals = new Map<string, PendingOriginal>();
 
-  const baseEndpoint = trimSlash(endpoint);
-  return `${baseEndpoint}/${bucketName}/${cleanKey}`;
-};
+    /**
+     * Remember an original whose formats should be synthesized. Call settle() with its key once stored.
+     */
+    const registerOriginal = (file: StrapiR2.File, bucketKey: string): { settle: (key: string | null) => void } | null => {
+      const resizing = resolveBucket(config, bucketKey)?.options.imageResizing;
+      if (!resizing?.synthesizeFormats || !getTransformDomain(bucketKey)) return null;
+      if (!file.hash || !(file.mime || '').startsWith('image/')) return null;
 
-// ─────────────────────────────────────────────────────────────
-// Provider
-// ─────────────────────────────────────────────────────────────
+      const now = Date.now();
+      for (const [hash, entry] of pendingOriginals) {
+        if (entry.expiresAt < now) pendingOriginals.delete(hash);
+      }
 
-const provider = {
-  name: "strapi-provider-cloudflare-r2-advanced",
-  displayName: "Cloudflare R2 Advanced",
-  init(initOptions: StrapiR2.InitOptions) {
-    const { baseUrl, rootPath } = initOptions as any;
+      let settle!: (key: string | null) => void;
+      const key = new Promise<string | null>((resolve) => {
+        settle = resolve;
+      });
+      pendingOriginals.set(file.hash, {
+        bucketKey,
+        formats: resizing.formats || DEFAULT_FORMAT_NAMES,
+        key,
+        expiresAt: now + PENDING_ORIGINAL_TTL
+      });
+      return { settle };
+    };
 
-    const config = getConfig(initOptions);
-    const s3Client = new S3Client(config);
+    /**
+     * The pending original a format file belongs to: hash "<format>_<original hash>" in the same bucket.
+     */
+    const findPendingOriginal = (file: StrapiR2.File, bucketKey: string): PendingOriginal | null => {
+      const hash = file.hash || '';
+      for (let i = hash.indexOf('_'); i > 0; i = hash.indexOf('_', i + 1)) {
+        const entry = pendingOriginals.get(hash.slice(i + 1));
+        if (entry && entry.bucketKey === bucketKey && entry.formats.includes(hash.slice(0, i)) && entry.expiresAt >= Date.now()) {
+          return entry;
+        }
+      }
+      return null;
+    };
 
-    const filePrefix = rootPath ? `${trimSlash(rootPath)}/` : '';
+    /**
+     * Point a format at a transform URL of its original instead of storing it.
+     * Returns false when the original was not stored; the format is then uploaded normally.
+     */
+    const synthesizeFormat = async (file: StrapiR2.File, bucketKey: string, original: PendingOriginal): Promise<boolean> => {
+      const originalKey = await original.key;
+      if (!originalKey) return false;
 
-    const getFileKeyForUpload = (file: StrapiR2.File): string => {
-      const key = getObjectKey(file, config);
-      return `${filePrefix}${key}`;
+      file.url = synthesizedFormatUrl(bucketKey, originalKey, file);
+      file.provider_metadata = {
+        bucket: bucketKey,
+        key: originalKey,
+        isPrivate: false,
+        synthesized: true
+      };
+      return true;
     };
 
+    /**
+     * `target` pins bucket and (optionally) the exact object key, bypassing path/route resolution.
+     */
     const uploadCore = async (
       file: StrapiR2.File,
-      customParams: Partial<PutObjectCommandInput> = {}
+      customParams: Partial<PutObjectCommandInput> = {},
+      options: StrapiR2.UploadOptions = {},
+      target?: { bucketKey: string; key?: string; tenant: Tenant | null }
     ): Promise<void> => {
-      const effectivePath = (file as any)._replaceOriginalFolder || file.path;
+      const bucketInfo: BucketInfo = target
+        ? { bucketKey: target.bucketKey, bucketName: getBucket(target.bucketKey, '').name }
+        : resolveUploadBucket(file);
+
+      // Before the first await, so the formats Strapi uploads next can find their original
+      const pendingOriginal = target ? null : findPendingOriginal(file, bucketInfo.bucketKey);
+      const original = target || pendingOriginal ? null : registerOriginal(file, bucketInfo.bucketKey);
+
+      try {
+        await storeFile(file, bucketInfo, customParams, options, target, pendingOriginal);
+        original?.settle(file.provider_metadata?.key ?? null);
+      } catch (err) {
+        original?.settle(null);
+        throw err;
+      }
+    };
 
-      const bucketInfo = getBucketInfo(file, config);
+    const storeFile = async (
+      file: StrapiR2.File,
+      bucketInfo: { bucketKey: string; bucketName: string; folder?: string },
+      customParams: Partial<PutObjectCommandInput>,
+      options: StrapiR2.UploadOptions,
+      target: { bucketKey: string; key?: string; tenant: Tenant | null } | undefined,
+      pendingOriginal: PendingOriginal | null
+    ): Promise<void> => {
+      const tenant = target ? target.tenant : await resolveTenant(file, 'upload');
+      assertTenantAccess(tenant, bucketInfo.bucketKey, null);
 
-      // Temporarily inject effectivePath for key calculation
-      const originalPathBackup = file.path;
-      (file as any).path = effectivePath;
-      const Key = getFileKeyForUpload(file);
-      file.path = originalPathBackup;
+      if (pendingOriginal && (await synthesizeFormat(file, bucketInfo.bucketKey, pendingOriginal))) {
+        return;
+      }
 
-      const body =
+      let body: Readable | Buffer | undefined =
         file.stream ||
         (file.buffer
           ? Buffer.from(file.buffer as any, 'binary')
@@ -320,62 +3595,458 @@ const provider = {
         );
       }
 
-      const upload = new Upload({
-        client: s3Client,
-        params: {
-          Bucket: bucketInfo.bucketName,
-          Key,
-          Body: body,
-          ACL: config.params?.ACL as ObjectCannedACL | undefined,
-          ContentType: file.mime,
-          ...customParams
-        }
-      });
+      const bucket = getBucket(bucketInfo.bucketKey, '');
 
-      const uploadResult = await upload.done();
+      if (bucket.options.policy) {
+        body = await enforceUploadPolicy(file, body, bucket.options.policy, bucket.key);
+      }
 
-      // Determine privacy (same logic as old plugin: if no publicDomain → treat as private)
-      const isPrivateBucket = !config.publicDomains?.[bucketInfo.bucketKey];
+      const contentAddressed = !!bucket.options.contentAddressed;
+      const template = getKeyTemplate(bucket);
 
-      // URL: we mostly ignore uploadResult.Location and use our deterministic rules
-      if (baseUrl && !isPrivateBucket) {
-        const cleanKey = trimLeadingSlash(Key);
-        file.url = `${trimSlash(baseUrl)}/${cleanKey}`;
-      } else {
-        file.url = await buildFileUrl({
-          s3Client,
-          config,
-          bucketKey: bucketInfo.bucketKey,
-          bucketName: bucketInfo.bucketName,
-          key: Key,
-          isPrivate: isPrivateBucket
-        });
+      let sha256: string | undefined;
+      let cleanup = async () => {};
+      if (contentAddressed || template?.includes('{sha256}')) {
+        const hashed = await hashBody(body);
+        sha256 = hashed.sha256;
+        body = hashed.body;
+        cleanup = hashed.cleanup;
+      }
+
+      const Key =
+        target?.key && !contentAddressed
+          ? target.key
+          : getFileKeyForUpload(file, {
+            routeFolder: bucketInfo.folder,
+            template,
+            sha256,
+            tenantPrefix: tenant?.prefix
+          });
+      assertTenantAccess(tenant, bucket.key, Key);
+
+      const uploadBody: Readable | Buffer = body;
+      const algorithm = bucket.options.checksum ?? config.checksum;
+      const sse = resolveSseKey(bucket);
+      let stored: { etag?: string; size?: number; checksum?: string };
+
+      try {
+        stored = await track(
+          { operation: 'upload', bucket: bucket.key, key: Key, file, bytes: kbytesToBytes(file.size) },
+          async () => {
+            // Content-addressed: identical content already stored under this key
+            const existing = contentAddressed ? await driver.head(bucket, Key, { sse }) : null;
+
+            if (existing) {
+              if (!Buffer.isBuffer(uploadBody)) uploadBody.destroy();
+              return {
+                etag: existing.ETag,
+                size: existing.ContentLength,
+                checksum: algorithm === 'SHA256' && sha256 ? Buffer.from(sha256, 'hex').toString('base64') : undefined
+              };
+            }
+
+            await checkQuota(file, bucket, Key, kbytesToBytes(file.size || 0), tenant);
+
+            const tracked = trackBody(uploadBody, algorithm);
+            const output = await runUpload(
+              file,
+              bucket,
+              {
+                Bucket: bucketInfo.bucketName,
+                Key,
+                Body: tracked.body,
+                ACL: bucket.acl as ObjectCannedACL | undefined,
+                ContentType: file.mime,
+                ...(algorithm ? { ChecksumAlgorithm: algorithm } : {}),
+                ...resolveObjectHeaders(file, config, bucket),
+                ...customParams,
+                Metadata: { ...resolveObjectMetadata(file, config, bucket), ...(customParams.Metadata || {}) },
+                ...sseParams(sse)
+              },
+              options
+            );
+            const { checksum, bytes } = tracked.result();
+            await recordUsage(bucket, Key, 1, bytes);
+            return { etag: output.ETag, size: bytes, checksum };
+          },
+          (result) => result.size
+        );
+      } finally {
+        await cleanup();
       }
 
+      // Determine privacy (same logic as old plugin: if no publicDomain → treat as private)
+      const isPrivate = isPrivateBucket(config, bucketInfo.bucketKey);
+
+      file.url = await resolveFileUrl(bucketInfo.bucketKey, bucketInfo.bucketName, Key, isPrivate, sse?.id ?? null);
+
+      const {
+        contentAddressed: _wasShared,
+        sha256: _oldSha256,
+        checksum: _oldChecksum,
+        sseKeyId: _oldKeyId,
+        ...previousMeta
+      } = file.provider_metadata || {};
+
       file.provider_metadata = {
-        ...(file.provider_metadata || {}),
+        ...previousMeta,
         bucket: bucketInfo.bucketKey,
         key: Key,
-        isPrivate: isPrivateBucket
+        isPrivate,
+        etag: stored.etag,
+        size: stored.size, // bytes
+        ...(stored.checksum && algorithm ? { checksum: { algorithm, value: stored.checksum } } : {}),
+        ...(sse ? { sseKeyId: sse.id } : {}),
+        ...(contentAddressed ? { contentAddressed: true, sha256 } : {})
       };
     };
 
     return {
       /**
-       * Upload file – Strapi v5 will call this for buffer or stream.
+       * Upload progress for every upload: provider.events.on('progress', (p) => ...)
+       */
+      events,
+
+      /**
+       * Driver "local": serve files below `local.baseUrl` (GET/HEAD, tokens for private buckets).
+       * Resolves false when the request is not for us; always false for other drivers.
+       */
+      handleLocalRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+        return driver.handleRequest ? driver.handleRequest(req, res) : Promise.resolve(false);
+      },
+
+      /**
+       * Strapi asks this once to decide whether media URLs must go through getSignedUrl().
+       * True as soon as one configured bucket is private; public files are returned unchanged.
+       */
+      isPrivate(): boolean {
+        return Object.keys(config.buckets || {}).some((bucketKey) =>
+          isPrivateBucket(config, bucketKey)
+        );
+      },
+
+      /**
+       * Enforce Strapi's global sizeLimit (bytes) and the target bucket's maxFileSize.
        */
-      async upload(file: StrapiR2.File, customParams: Partial<PutObjectCommandInput> = {}) {
-        // console.log("[R2-ADVANCED] upload() invoked");
+      checkFileSize(file: StrapiR2.File, { sizeLimit }: { sizeLimit?: number } = {}) {
+        const bucketInfo = getBucketInfo(file, config);
+        assertSizeLimit(file, bucketInfo.bucketKey, kbytesToBytes(file.size), sizeLimit);
+      },
 
-        await uploadCore(file, customParams);
+      /**
+       * Upload file – Strapi v5 will call this for buffer or stream.
+       */
+      async upload(
+        file: StrapiR2.File,
+        customParams: Partial<PutObjectCommandInput> = {},
+        options: StrapiR2.UploadOptions = {}
+      ) {
+        getLogger()?.debug?.(`[strapi-provider-cloudflare-r2-advanced] upload() ${file.name}`);
+        await uploadCore(file, customParams, options);
       },
 
       /**
        * Backwards-compatible uploadStream alias.
        */
-      async uploadStream(file: StrapiR2.File, customParams: Partial<PutObjectCommandInput> = {}) {
-        // console.log("[R2-ADVANCED] uploadStream() invoked");
-        await uploadCore(file, customParams);
+      async uploadStream(
+        file: StrapiR2.File,
+        customParams: Partial<PutObjectCommandInput> = {},
+        options: StrapiR2.UploadOptions = {}
+      ) {
+        getLogger()?.debug?.(`[strapi-provider-cloudflare-r2-advanced] uploadStream() ${file.name}`);
+        await uploadCore(file, customParams, options);
+      },
+
+      /**
+       * Start a browser upload straight to R2.
+       * Resolves bucket and key exactly like upload() would and returns a presigned PUT,
+       * or presigned part URLs for a multipart upload. Call finalizeDirectUpload() afterwards.
+       */
+      async createDirectUpload(
+        request: StrapiR2.DirectUploadRequest,
+        options: StrapiR2.DirectUploadOptions = {}
+      ): Promise<StrapiR2.DirectUpload> {
+        const ext = request.ext || extname(request.name || '').toLowerCase();
+        const file: StrapiR2.File = {
+          ...request,
+          ext,
+          hash: request.hash || generateFileHash(request.name),
+          size: request.size / 1000
+        };
+
+        // Unlike Strapi's, these come from the browser
+        assertFileNamePart('hash', file.hash);
+        assertFileNamePart('ext', ext, `${file.hash}${ext}`);
+
+        const bucketInfo = getBucketInfo(file, config);
+        const bucket = getBucket(bucketInfo.bucketKey, 'createDirectUpload(): ');
+        const tenant = await resolveTenant(file, 'upload');
+        assertTenantAccess(tenant, bucket.key, null);
+
+        // The browser would need the encryption key
+        if (bucket.options.encryption) {
+          throw new Error(
+            `[strapi-provider-cloudflare-r2-advanced] createDirectUpload(): Bucket '${bucket.key}' uses SSE-C; upload through the server.`
+          );
+        }
+
+        assertSizeLimit(file, bucket.key, request.size);
+        if (bucket.options.policy) {
+          checkDeclaredPolicy(file, request.size, bucket.options.policy, bucket.key);
+        }
+
+        // The key would come from a hash of bytes the server never sees, and could overwrite a shared object
+        const template = getKeyTemplate(bucket);
+        if (bucket.options.contentAddressed || template?.includes('{sha256}')) {
+          throw new Error(
+            `[strapi-provider-cloudflare-r2-advanced] createDirectUpload(): Bucket '${bucket.key}' keys objects by content hash; upload through the server.`
+          );
+        }
+
+        const Key = getFileKeyForUpload(file, {
+          routeFolder: bucketInfo.folder,
+          template,
+          tenantPrefix: tenant?.prefix
+        });
+        await checkQuota(file, bucket, Key, request.size, tenant);
+
+        const client = getClient(bucket, 'createDirectUpload(): ');
+        const expiresIn = options.expiresIn || config.signedUrlExpires || 3600;
+        const partSize = Math.max(options.partSize || DEFAULT_PART_SIZE, MIN_PART_SIZE);
+        const multipart = options.multipart ?? request.size > partSize;
+
+        // Marks the object as this upload, so finalize never touches an object someone else wrote
+        const descriptor: StrapiR2.DirectUploadDescriptor = {
+          bucket: bucket.key,
+          key: Key,
+          name: file.name,
+          hash: file.hash,
+          ext,
+          mime: file.mime,
+          size: request.size,
+          exp: Math.floor(Date.now() / 1000) + expiresIn + DIRECT_UPLOAD_GRACE,
+          nonce: randomBytes(16).toString('hex')
+        };
+        const Metadata = { 'direct-upload': descriptor.nonce };
+
+        const result: StrapiR2.DirectUpload = {
+          token: '',
+          bucket: bucket.key,
+          key: Key,
+          name: file.name,
+          hash: file.hash,
+          ext,
+          mime: file.mime,
+          size: request.size,
+          expiresIn
+        };
+
+        const headers = resolveObjectHeaders(file, config, bucket);
+
+        if (!multipart) {
+          result.url = await getSignedUrl(
+            client,
+            new PutObjectCommand({ Bucket: bucket.name, Key, ContentType: file.mime, ...headers, Metadata }),
+            { expiresIn }
+          );
+          result.headers = {
+            'Content-Type': file.mime,
+            ...(headers.CacheControl ? { 'Cache-Control': headers.CacheControl } : {}),
+            ...(headers.ContentDisposition ? { 'Content-Disposition': headers.ContentDisposition } : {}),
+            ...(headers.ContentLanguage ? { 'Content-Language': headers.ContentLanguage } : {})
+          };
+          result.token = signDirectUpload(directUploadSecret, descriptor);
+          return result;
+        }
+
+        const partCount = Math.max(1, Math.ceil(request.size / partSize));
+        if (partCount > MAX_PARTS) {
+          throw new Error(
+            `[strapi-provider-cloudflare-r2-advanced] createDirectUpload(): ${partCount} parts exceed the limit of ${MAX_PARTS}; increase partSize.`
+          );
+        }
+
+        const { UploadId } = await client.send(
+          new CreateMultipartUploadCommand({ Bucket: bucket.name, Key, ContentType: file.mime, ...headers, Metadata })
+        );
+
+        descriptor.uploadId = UploadId;
+        result.token = signDirectUpload(directUploadSecret, descriptor);
+        result.uploadId = UploadId;
+        result.partSize = partSize;
+        result.parts = await Promise.all(
+          Array.from({ length: partCount }, async (_, index) => ({
+            partNumber: index + 1,
+            url: await getSignedUrl(
+              client,
+              new UploadPartCommand({ Bucket: bucket.name, Key, UploadId, PartNumber: index + 1 }),
+              { expiresIn }
+            )
+          }))
+        );
+
+        return result;
+      },
+
+      /**
+       * Finish a direct upload: completes the multipart upload (if any), HEADs the object,
+       * re-checks size/type against the bucket policy and returns what upload() would have set.
+       * Bucket, key and declared type come from the signed token. Objects that fail the checks
+       * are deleted, but only once they are proven to be this upload and not yet accepted.
+       * Accepted uploads are marked, so calling it again with the same token is safe.
+       */
+      async finalizeDirectUpload(upload: StrapiR2.DirectUploadCompletion): Promise<{
+        name: string;
+        hash: string;
+        ext: string;
+        mime: string;
+        size: number; // KB, like Strapi
+        url: string;
+        provider_metadata: NonNullable<StrapiR2.File['provider_metadata']>;
+      }> {
+        const descriptor = readDirectUploadToken(upload.token, 'finalizeDirectUpload(): ');
+        const bucket = getBucket(descriptor.bucket, 'finalizeDirectUpload(): ');
+        const client = getClient(bucket, 'finalizeDirectUpload(): ');
+        const Key = descriptor.key;
+
+        const tenant = await resolveTenant(
+          { name: descriptor.name, hash: descriptor.hash, ext: descriptor.ext, mime: descriptor.mime, size: 0 },
+          'upload'
+        );
+        assertTenantAccess(tenant, bucket.key, Key);
+
+        // The nonce is rewritten once the upload is accepted, so a retried finalize returns the same result
+        const finalized = `${descriptor.nonce}:finalized`;
+        const findObject = async () => {
+          try {
+            return await client.send(new HeadObjectCommand({ Bucket: bucket.name, Key }));
+          } catch (err) {
+            if (isNotFoundError(err)) return null;
+            throw err;
+          }
+        };
+        const marker = (object: HeadObjectCommandOutput | null) => object?.Metadata?.['direct-upload'];
+
+        let head = await findObject();
+
+        if (descriptor.uploadId && marker(head) !== descriptor.nonce && marker(head) !== finalized) {
+          if (!upload.parts?.length) {
+            throw new Error(
+              '[strapi-provider-cloudflare-r2-advanced] finalizeDirectUpload(): parts are required to complete a multipart upload.'
+            );
+          }
+
+          await client.send(
+            new CompleteMultipartUploadCommand({
+              Bucket: bucket.name,
+              Key,
+              UploadId: descriptor.uploadId,
+              MultipartUpload: {
+                Parts: [...upload.parts]
+                  .sort((a, b) => a.partNumber - b.partNumber)
+                  .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag }))
+              }
+            })
+          );
+          head = await findObject();
+        }
+
+        if (!head) {
+          throw new Error(
+            `[strapi-provider-cloudflare-r2-advanced] finalizeDirectUpload(): Object '${Key}' not found; the upload did not complete.`
+          );
+        }
+
+        // Anything else at this key (an older object, a concurrent write) is left alone
+        if (marker(head) !== descriptor.nonce && marker(head) !== finalized) {
+          throw new UploadPolicyError(
+            `[strapi-provider-cloudflare-r2-advanced] finalizeDirectUpload(): Object '${Key}' was not written by this upload.`,
+            { bucket: bucket.key, key: Key }
+          );
+        }
+
+        const size = head.ContentLength || 0;
+        const file: StrapiR2.File = {
+          name: descriptor.name,
+          hash: descriptor.hash,
+          ext: descriptor.ext,
+          mime: descriptor.mime,
+          size: size / 1000
+        };
+
+        if (marker(head) !== finalized) {
+          try {
+            if (head.ContentType && head.ContentType.toLowerCase() !== descriptor.mime.toLowerCase()) {
+              policyRejection(file, bucket.key)(
+                `stored type '${head.ContentType}' does not match declared type '${descriptor.mime}'`
+              );
+            }
+
+            // The signed PUT does not bind the length: hold the object to what was declared and checked
+            if (size > descriptor.size) {
+              throw new PayloadTooLargeError(
+                `${file.name} is larger than the ${bytesToHumanReadable(descriptor.size)} declared for this upload.`,
+                { bucket: bucket.key, key: Key, declared: descriptor.size, size }
+              );
+            }
+            assertSizeLimit(file, bucket.key, size);
+            await checkQuota(file, bucket, Key, size, tenant, Key);
+
+            const policy = bucket.options.policy;
+            if (policy) {
+              checkDeclaredPolicy(file, size, policy, bucket.key);
+
+              if (policy.sniffContent !== false && size > 0) {
+                const object = await client.send(
+                  new GetObjectCommand({ Bucket: bucket.name, Key, Range: `bytes=0-${SNIFF_BYTES - 1}` })
+                );
+                const firstBytes = Buffer.from(await object.Body!.transformToByteArray());
+                checkSniffedContent(file, firstBytes, policy, bucket.key);
+              }
+            }
+          } catch (err) {
+            await client.send(new DeleteObjectCommand({ Bucket: bucket.name, Key }));
+            throw err;
+          }
+
+          // Rewriting the metadata changes the ETag: record the one of the marked object
+          await copyObject({ bucket, key: Key }, { bucket, key: Key }, { 'direct-upload': finalized });
+          head = (await findObject()) || head;
+          await recordUsage(bucket, Key, 1, size);
+        }
+
+        const isPrivate = isPrivateBucket(config, bucket.key);
+
+        return {
+          name: file.name,
+          hash: file.hash,
+          ext: file.ext,
+          mime: file.mime,
+          size: file.size,
+          url: await resolveFileUrl(bucket.key, bucket.name, Key, isPrivate),
+          provider_metadata: {
+            bucket: bucket.key,
+            key: Key,
+            isPrivate,
+            etag: head.ETag,
+            size // bytes
+          }
+        };
+      },
+
+      /**
+       * Abort a multipart direct upload that will not be finished.
+       */
+      async abortDirectUpload(upload: { token: string }): Promise<void> {
+        const descriptor = readDirectUploadToken(upload.token, 'abortDirectUpload(): ');
+        if (!descriptor.uploadId) {
+          throw new Error('[strapi-provider-cloudflare-r2-advanced] abortDirectUpload(): Not a multipart upload.');
+        }
+
+        const bucket = getBucket(descriptor.bucket, 'abortDirectUpload(): ');
+        await getClient(bucket, 'abortDirectUpload(): ').send(
+          new AbortMultipartUploadCommand({ Bucket: bucket.name, Key: descriptor.key, UploadId: descriptor.uploadId })
+        );
       },
 
       /**
@@ -390,76 +4061,209 @@ const provider = {
           const key = meta.key;
           if (!bucketKey || !key) return;
 
-          const bucketName = config.buckets?.[bucketKey];
-          if (!bucketName) {
-            throw new Error(
-              `[strapi-provider-cloudflare-r2-advanced] Unknown bucket '${bucketKey}' during delete().`
-            );
-          }
+          // Content-addressed objects may be shared by other files; leave them in place
+          if (meta.contentAddressed) return;
 
-          const command = new DeleteObjectCommand({
-            Bucket: bucketName,
-            Key: key,
-            ...customParams,
-          });
+          const bucket = getBucket(bucketKey, 'delete(): ');
 
-          deletions.push(s3Client.send(command));
+          // Soft delete: only remove the object once it is safely in the trash
+          deletions.push(
+            track({ operation: 'delete', bucket: bucketKey, key, file }, () =>
+              copyToTrash(bucketKey, key, meta.sseKeyId ?? null).then(async (trashed) => {
+                const output = await driver.delete(bucket, key, customParams);
+                // A missing object may or may not be in the totals
+                await recordUsage(bucket, key, -1, trashed === 'missing' ? undefined : meta.size);
+                return output;
+              })
+            )
+          );
         };
 
-        // Main file
-        addDeletion(file.provider_metadata);
+        // Main file + format files (thumbnail, small, medium, large, etc.)
+        for (const variant of getFileVariants(file)) {
+          addDeletion(variant.meta);
+        }
 
-        // Format files (thumbnail, small, medium, large, etc.)
-        if (file.formats && typeof file.formats === "object") {
-          for (const formatKey of Object.keys(file.formats)) {
-            const fmt = file.formats[formatKey];
-            if (fmt?.provider_metadata) {
-              addDeletion(fmt.provider_metadata);
+        // Return all delete promises
+        return Promise.all(deletions);
+      },
+
+      /**
+       * Delete many files (and their formats) with DeleteObjects, 1000 keys per request.
+       * Resolves with one result per file instead of rejecting on the first error.
+       */
+      async deleteMany(files: StrapiR2.File[]): Promise<StrapiR2.BatchResult[]> {
+        const results: StrapiR2.BatchResult[] = files.map((file) => ({ file, success: true }));
+        const fail = (index: number, message: string, key?: string) => {
+          results[index].success = false;
+          results[index].errors = [...(results[index].errors || []), { key, message }];
+        };
+
+        // bucketKey -> object key -> indexes of files owning it
+        const byBucket = new Map<string, Map<string, number[]>>();
+        const sseKeyIds = new Map<string, string>(); // "bucket/key" -> SSE-C key ID
+        const sizes = new Map<string, number>(); // "bucket/key" -> bytes
+
+        files.forEach((file, index) => {
+          for (const { label, meta } of getFileVariants(file)) {
+            if (!meta.bucket || !meta.key || meta.contentAddressed) continue;
+
+            if (!resolveBucket(config, meta.bucket)) {
+              fail(index, `Unknown bucket '${meta.bucket}' for ${label}.`, meta.key);
+              continue;
+            }
+
+            const keys = byBucket.get(meta.bucket) || new Map<string, number[]>();
+            keys.set(meta.key, [...(keys.get(meta.key) || []), index]);
+            byBucket.set(meta.bucket, keys);
+            if (meta.sseKeyId) sseKeyIds.set(`${meta.bucket}/${meta.key}`, meta.sseKeyId);
+            if (typeof meta.size === 'number') sizes.set(`${meta.bucket}/${meta.key}`, meta.size);
+          }
+        });
+
+        const event = (bucketKey: string, key: string, indexes: number[]): StrapiR2.OperationEvent => ({
+          operation: 'delete',
+          bucket: bucketKey,
+          key,
+          file: files[indexes[0]]
+        });
+
+        // beforeDelete may veto single objects
+        const startedAt = new Map<string, number>(); // "bucket/key" -> start time
+        for (const [bucketKey, keys] of byBucket) {
+          for (const [key, indexes] of [...keys]) {
+            try {
+              startedAt.set(`${bucketKey}/${key}`, await startOperation(event(bucketKey, key, indexes)));
+            } catch (err: any) {
+              for (const index of indexes) fail(index, err?.message || String(err), key);
+              keys.delete(key);
             }
           }
         }
 
-        // Return all delete promises
-        return Promise.all(deletions);
+        // Soft delete: objects that could not be trashed are kept and reported
+        for (const [bucketKey, keys] of byBucket) {
+          if (!getTrash(bucketKey)) continue;
+
+          await mapWithConcurrency([...keys.keys()], concurrency, async (key) => {
+            try {
+              const trashed = await copyToTrash(bucketKey, key, sseKeyIds.get(`${bucketKey}/${key}`) ?? null);
+              if (trashed === 'missing') sizes.delete(`${bucketKey}/${key}`);
+            } catch (err: any) {
+              const indexes = keys.get(key) || [];
+              for (const index of indexes) {
+                fail(index, `Could not move to trash: ${err?.message || err}`, key);
+              }
+              keys.delete(key);
+              await finishOperation(event(bucketKey, key, indexes), startedAt.get(`${bucketKey}/${key}`)!, err);
+            }
+          });
+        }
+
+        for (const [bucketKey, keys] of byBucket) {
+          const { errors } = await deleteKeys(bucketKey, [...keys.keys()]);
+          const failed = new Map(errors.map((error) => [error.key, error]));
+
+          for (const [key, indexes] of keys) {
+            const error = failed.get(key);
+            if (error) {
+              for (const index of indexes) fail(index, error.message, key);
+            } else {
+              await recordUsage(getBucket(bucketKey, 'deleteMany(): '), key, -1, sizes.get(`${bucketKey}/${key}`));
+            }
+            await finishOperation(
+              event(bucketKey, key, indexes),
+              startedAt.get(`${bucketKey}/${key}`)!,
+              error ? new Error(error.message) : undefined
+            );
+          }
+        }
+
+        return results;
+      },
+
+      /**
+       * Move many files with move(), `concurrency` files at a time.
+       * Resolves with one result per file instead of rejecting on the first error.
+       */
+      async moveMany(
+        files: StrapiR2.File[],
+        options: { toPath: string; overwrite?: boolean }
+      ): Promise<StrapiR2.BatchResult[]> {
+        return mapWithConcurrency(files, concurrency, async (file) => {
+          try {
+            await this.move(file, options);
+            return { file, success: true };
+          } catch (err: any) {
+            return { file, success: false, errors: [{ message: err?.message || String(err) }] };
+          }
+        });
       },
 
       /**
-       * Generate a fresh signed URL for private files, using provider_metadata.
-       * Same semantics as your current helper.
+       * Signed URL for private files, using provider_metadata.
+       * Returns `{ url }` as expected by Strapi's upload plugin.
+       * The second argument is either expiresIn (seconds) or SignedUrlOptions.
        */
-      async getSignedUrl(file: StrapiR2.File, expiresIn?: number): Promise<string> {
-        // console.log("[R2-ADVANCED] getSignedUrl() called");
+      async getSignedUrl(
+        file: StrapiR2.File,
+        options?: number | StrapiR2.SignedUrlOptions
+      ): Promise<{ url: string }> {
         const metadata = file.provider_metadata || {};
         const bucketKey = metadata.bucket as string | undefined;
         const key = metadata.key as string | undefined;
 
         if (!metadata.isPrivate || !bucketKey || !key) {
           // Public files: just return stored URL
-          return file.url as string;
+          return { url: file.url as string };
+        }
+
+        const signOptions: StrapiR2.SignedUrlOptions =
+          typeof options === 'number' ? { expiresIn: options } : { ...(options || {}) };
+
+        if (signOptions.download && !signOptions.responseContentDisposition) {
+          const fileName = typeof signOptions.download === 'string' ? signOptions.download : file.name;
+          signOptions.responseContentDisposition = contentDisposition(fileName);
         }
 
-        const bucketName = config.buckets?.[bucketKey];
-        if (!bucketName) {
+        const url = await signGetUrl(bucketKey, key, signOptions, metadata.sseKeyId ?? null);
+        getLogger()?.debug?.(`[strapi-provider-cloudflare-r2-advanced] getSignedUrl() ${bucketKey}/${key}`);
+
+        return { url };
+      },
+
+      /**
+       * Cloudflare Image Resizing URL for a file in a public bucket:
+       * `${publicDomain}/cdn-cgi/image/<options>/<key>`. Options are merged over imageResizing.defaults.
+       */
+      getTransformedUrl(file: StrapiR2.File, options: StrapiR2.TransformOptions = {}): string {
+        const metadata = file.provider_metadata || {};
+        const bucketKey = metadata.bucket as string | undefined;
+        const key = metadata.key as string | undefined;
+
+        if (!bucketKey || !key) {
           throw new Error(
-            `[strapi-provider-cloudflare-r2-advanced] Unknown bucket '${bucketKey}' in provider_metadata.`
+            '[strapi-provider-cloudflare-r2-advanced] getTransformedUrl(): Missing provider_metadata.bucket/key.'
           );
         }
 
-        const command = new GetObjectCommand({
-          Bucket: bucketName,
-          Key: key
-        });
-
-        const url = await getSignedUrl(s3Client, command, {
-          expiresIn: expiresIn || config.signedUrlExpires || 3600
-        });
+        const domain = getTransformDomain(bucketKey);
+        if (!domain) {
+          throw new Error(
+            `[strapi-provider-cloudflare-r2-advanced] getTransformedUrl(): Bucket '${bucketKey}' has no public domain.`
+          );
+        }
 
-        return url;
+        const defaults = resolveBucket(config, bucketKey)?.options.imageResizing?.defaults || {};
+        return buildTransformUrl(domain, key, { ...defaults, ...options });
       },
 
       /**
        * Move a file (and all its formats) to another bucket/path.
        * Performs COPY + DELETE and updates provider_metadata (and main url) in-place.
+       * Variants are copied in parallel (`concurrency`); if one copy fails the copies already
+       * made are removed again and the sources are left untouched. Targets that existed before
+       * (overwrite) are never removed, but their previous content is not restored.
        *
        * Destination path must be in the form: bucket:BUCKET_KEY:some/folder
        * The final object keys will keep the original filenames (hash+ext) for each variant.
@@ -486,21 +4290,24 @@ const provider = {
         }
 
         const targetBucketKey = target.bucketKey;
-        const targetBucketName = config.buckets?.[targetBucketKey];
+        const targetBucketName = resolveBucket(config, targetBucketKey)?.name;
         if (!targetBucketName) {
           throw new Error(
             `[strapi-provider-cloudflare-r2-advanced] move(): Unknown target bucket '${targetBucketKey}'.`
           );
         }
 
-        const targetBasePath = trimLeadingSlash(target.actualPath || "");
+        // Tenants move within their own folder: toPath is relative to it
+        const tenant = await resolveTenant(file, 'move');
+        assertTenantAccess(tenant, targetBucketKey, null);
+        const folder = normalizeFolder(target.actualPath);
+        const targetBasePath = tenant ? `${filePrefix}${tenant.prefix}${folder}`.replace(/\/$/, '') : folder;
 
         // Build a list of all variants (main file + formats)
         const variants: Array<{
           label: string;
           meta: any;
           applyNewMeta: (newMeta: any) => void;
-          setUrl?: (newUrl: string) => void;
         }> = [];
 
         if (file.provider_metadata) {
@@ -509,9 +4316,6 @@ const provider = {
             meta: file.provider_metadata,
             applyNewMeta: (newMeta) => {
               file.provider_metadata = newMeta;
-            },
-            setUrl: (newUrl) => {
-              file.url = newUrl;
             }
           });
         }
@@ -519,7 +4323,7 @@ const provider = {
         if (file.formats && typeof file.formats === "object") {
           for (const formatKey of Object.keys(file.formats)) {
             const fmt = file.formats[formatKey];
-            if (fmt?.provider_metadata) {
+            if (fmt?.provider_metadata && !fmt.provider_metadata.synthesized) {
               variants.push({
                 label: `format:${formatKey}`,
                 meta: fmt.provider_metadata,
@@ -547,7 +4351,6 @@ const provider = {
           toKey: string;
           currentMeta: any;
           applyNewMeta: (newMeta: any) => void;
-          setUrl?: (newUrl: string) => void;
         }> = [];
 
         for (const v of variants) {
@@ -561,13 +4364,15 @@ const provider = {
             );
           }
 
-          const fromBucketName = config.buckets?.[fromBucketKey];
+          const fromBucketName = resolveBucket(config, fromBucketKey)?.name;
           if (!fromBucketName) {
             throw new Error(
               `[strapi-provider-cloudflare-r2-advanced] move(): Unknown source bucket '${fromBucketKey}' for ${v.label}.`
             );
           }
 
+          assertTenantAccess(tenant, fromBucketKey, fromKey);
+
           const fileName = String(fromKey).split("/").pop();
           if (!fileName) {
             throw new Error(
@@ -586,117 +4391,838 @@ const provider = {
             toBucketName: targetBucketName,
             toKey,
             currentMeta: meta,
-            applyNewMeta: v.applyNewMeta,
-            setUrl: v.setUrl
+            applyNewMeta: v.applyNewMeta
           });
         }
 
-        // Helper: test existence when overwrite is disabled
-        const ensureNotExists = async (bucketName: string, key: string) => {
+        const targetBucket = getBucket(targetBucketKey, 'move(): ');
+
+        // Nothing to do for variants already at their destination
+        const pending = planned.filter(
+          (op) => !(op.fromBucketKey === op.toBucketKey && op.fromKey === op.toKey)
+        );
+
+        const moveEvent = (op: typeof pending[number]): StrapiR2.OperationEvent => ({
+          operation: 'move',
+          bucket: op.toBucketKey,
+          key: op.toKey,
+          file,
+          from: { bucket: op.fromBucketKey, key: op.fromKey }
+        });
+        const startedAt = Date.now();
+        const newKeyIds = new Map<typeof pending[number], string | undefined>();
+        const overwritten = new Set<typeof pending[number]>();
+
+        try {
+          // 0) Existing targets (HEAD, only a real 404 counts as free): refused, or replaced with overwrite
+          await mapWithConcurrency(pending, concurrency, async (op) => {
+            if (!(await headObject(targetBucket, op.toKey))) return;
+            if (!overwrite) {
+              throw new Error(
+                `[strapi-provider-cloudflare-r2-advanced] move(): Target already exists (${op.toKey}).`
+              );
+            }
+            overwritten.add(op);
+          });
+
+          // 1) COPY everything first (non-destructive); roll back our copies if one fails
+          const copied: typeof pending = [];
           try {
-            await s3Client.send(
-              new GetObjectCommand({
-                Bucket: bucketName,
-                Key: key
-              })
+            await mapWithConcurrency(pending, concurrency, async (op) => {
+              newKeyIds.set(
+                op,
+                await copyObject(
+                  {
+                    bucket: getBucket(op.fromBucketKey, 'move(): '),
+                    key: op.fromKey,
+                    sseKeyId: op.currentMeta?.sseKeyId ?? null
+                  },
+                  { bucket: targetBucket, key: op.toKey }
+                )
+              );
+              copied.push(op);
+            });
+          } catch (err: any) {
+            // Overwritten targets are not transactional: their previous content is gone, but they are never deleted
+            const created = copied.filter((op) => !overwritten.has(op));
+            const kept = copied.filter((op) => overwritten.has(op)).map((op) => op.toKey);
+            const rollback = await Promise.allSettled(
+              created.map((op) =>
+                driver.delete(getBucket(op.toBucketKey, 'move(): '), op.toKey)
+              )
             );
-            // If GetObject succeeded, the object exists
-            throw new Error(
-              `[strapi-provider-cloudflare-r2-advanced] move(): Target already exists (${key}).`
+            const leftovers = created.filter((_, i) => rollback[i].status === 'rejected').map((op) => op.toKey);
+
+            const error = new Error(
+              `[strapi-provider-cloudflare-r2-advanced] move(): Copy failed, ${created.length - leftovers.length} partial copies rolled back` +
+              (leftovers.length ? ` (could not remove: ${leftovers.join(', ')})` : '') +
+              (kept.length ? ` (overwritten, kept: ${kept.join(', ')})` : '') +
+              `: ${err?.message || err}`
             );
-          } catch (err: any) {
-            // Expected for non-existing keys; we cannot reliably distinguish all errors here,
-            // but R2/S3 will fail GetObject when object doesn't exist.
-            return;
+            (error as any).cause = err;
+            throw error;
           }
-        };
 
-        // 1) COPY everything first (non-destructive)
-        for (const op of planned) {
-          if (!overwrite) {
-            await ensureNotExists(op.toBucketName, op.toKey);
-          }
+          // 2) DELETE sources (destructive) after all copies succeeded
+          await mapWithConcurrency(pending, concurrency, async (op) => {
+            // What an overwritten target held is unknown
+            await recordUsage(targetBucket, op.toKey, 1, overwritten.has(op) ? undefined : op.currentMeta?.size);
 
-          // Lazy import to avoid touching top imports; keeps this insertion self-contained
-          const { CopyObjectCommand } = await import("@aws-sdk/client-s3");
+            // Content-addressed sources may be shared by other files
+            if (op.currentMeta?.contentAddressed) return;
 
-          await s3Client.send(
-            new CopyObjectCommand({
-              Bucket: op.toBucketName,
-              Key: op.toKey,
-              CopySource: `${op.fromBucketName}/${op.fromKey}`
-            })
-          );
+            const fromBucket = getBucket(op.fromBucketKey, 'move(): ');
+            await driver.delete(fromBucket, op.fromKey);
+            await recordUsage(fromBucket, op.fromKey, -1, op.currentMeta?.size);
+          });
+        } catch (err) {
+          if (pending.length) await finishOperation(moveEvent(pending[0]), startedAt, err);
+          throw err;
         }
 
-        // 2) DELETE sources (destructive) after all copies succeeded
-        for (const op of planned) {
-          await s3Client.send(
-            new DeleteObjectCommand({
-              Bucket: op.fromBucketName,
-              Key: op.fromKey
-            })
-          );
-        }
+        // 3) Update metadata, then every URL
+        const isPrivateTarget = isPrivateBucket(config, targetBucketKey);
 
-        // 3) Update metadata + main URL
-        const isPrivateTarget = !config.publicDomains?.[targetBucketKey];
+        // A moved copy is only shared (content-addressed) when it landed on the target's content key
+        const isContentKey = (op: typeof planned[number]) => {
+          const sha256 = op.currentMeta?.sha256;
+          if (!targetBucket.options.contentAddressed || !sha256) return false;
+
+          const fileName = op.toKey.slice(op.toKey.lastIndexOf('/') + 1);
+          const ext = extname(fileName);
+          const variantFile = { ...file, hash: fileName.slice(0, fileName.length - ext.length), ext };
+          return (
+            op.toKey ===
+            getFileKeyForUpload(variantFile, { routeFolder: folder, template: getKeyTemplate(targetBucket), sha256, tenantPrefix: tenant?.prefix })
+          );
+        };
 
         for (const op of planned) {
+          const { sseKeyId: currentKeyId, contentAddressed, sha256, ...currentMeta } = op.currentMeta || {};
+          const sseKeyId = newKeyIds.has(op) ? newKeyIds.get(op) : currentKeyId;
+          const shared = contentAddressed && (!pending.includes(op) || isContentKey(op));
           op.applyNewMeta({
-            ...(op.currentMeta || {}),
+            ...currentMeta,
             bucket: op.toBucketKey,
             key: op.toKey,
-            isPrivate: isPrivateTarget
+            isPrivate: isPrivateTarget,
+            ...(sseKeyId ? { sseKeyId } : {}),
+            ...(shared ? { contentAddressed, sha256 } : {})
           });
+        }
 
-          // Only update the main file url if we have a setter
-          if (op.setUrl) {
-            op.setUrl(
-              await buildFileUrl({
-                s3Client,
-                config,
-                bucketKey: op.toBucketKey,
-                bucketName: op.toBucketName,
-                key: op.toKey,
-                isPrivate: isPrivateTarget
-              })
+        // Synthesized formats follow the original
+        const movedOriginal = file.provider_metadata;
+        for (const fmt of Object.values<any>(file.formats || {})) {
+          if (!fmt?.provider_metadata?.synthesized || !movedOriginal?.key) continue;
+
+          fmt.provider_metadata = { ...fmt.provider_metadata, bucket: targetBucketKey, key: movedOriginal.key };
+        }
+
+        await this.refreshUrls(file);
+
+        for (const op of pending) {
+          await finishOperation(moveEvent(op), startedAt);
+        }
+      },
+
+      /**
+       * Recompute `url` of the original and every format from provider_metadata, using the
+       * current publicDomains, baseUrl and privacy rules. Updates the file in-place; persist it afterwards.
+       */
+      async refreshUrls(file: StrapiR2.File): Promise<StrapiR2.File> {
+        if (!file) {
+          throw new Error("[strapi-provider-cloudflare-r2-advanced] refreshUrls(): No file provided.");
+        }
+
+        const refresh = async (target: any) => {
+          const meta = target?.provider_metadata;
+          if (!meta?.bucket || !meta?.key || meta.synthesized) return;
+
+          const bucket = getBucket(meta.bucket, 'refreshUrls(): ');
+          const isPrivate = isPrivateBucket(config, bucket.key);
+          target.provider_metadata = { ...meta, isPrivate };
+          target.url = await resolveFileUrl(bucket.key, bucket.name, meta.key, isPrivate, meta.sseKeyId ?? null);
+        };
+
+        await refresh(file);
+
+        const formats = Object.values<any>(file.formats || {});
+        await mapWithConcurrency(formats, concurrency, refresh);
+
+        // Synthesized formats: transform URL on the original, or the original itself without a transform domain
+        for (const fmt of formats) {
+          const meta = fmt?.provider_metadata;
+          if (!meta?.synthesized || !meta.bucket || !meta.key) continue;
+
+          fmt.url = getTransformDomain(meta.bucket)
+            ? synthesizedFormatUrl(meta.bucket, meta.key, fmt)
+            : file.url;
+        }
+
+        return file;
+      },
+
+      /**
+       * Bring a soft-deleted file (and its formats) back from the trash to its original keys.
+       * Pass the file record as it was when it got deleted (sseKeyId is updated in-place).
+       */
+      async restore(file: StrapiR2.File): Promise<void> {
+        const variants = getFileVariants(file).filter(
+          ({ meta }) => meta.bucket && meta.key && !meta.contentAddressed
+        );
+
+        await mapWithConcurrency(variants, concurrency, async ({ label, meta, target }) => {
+          const location = getTrashLocation(meta.bucket as string, meta.key as string);
+          if (!location) {
+            throw new Error(
+              `[strapi-provider-cloudflare-r2-advanced] restore(): Trash is not enabled for bucket '${meta.bucket}'.`
+            );
+          }
+
+          // The trash copy kept the file's key where the trash bucket has it
+          const trashKeyId = copyKeyId(location.bucket, meta.sseKeyId) ?? null;
+          if (!(await headObject(location.bucket, location.key, trashKeyId))) {
+            throw new Error(
+              `[strapi-provider-cloudflare-r2-advanced] restore(): ${label} (${meta.key}) is not in the trash.`
             );
           }
+
+          const bucket = getBucket(meta.bucket as string, 'restore(): ');
+          const sseKeyId = await copyObject({ ...location, sseKeyId: trashKeyId }, { bucket, key: meta.key as string });
+          await recordUsage(bucket, meta.key as string, 1, meta.size);
+          if (sseKeyId) target.provider_metadata = { ...target.provider_metadata, sseKeyId };
+        });
+
+        // Only clear the trash once everything is back
+        await deleteQuietly(
+          variants.map(({ meta }) => {
+            const location = getTrashLocation(meta.bucket as string, meta.key as string)!;
+            return { bucket: location.bucket.key, key: location.key };
+          })
+        );
+      },
+
+      /**
+       * Permanently delete trashed objects older than `olderThan`
+       * (default: now minus trash.retentionDays, 30 days unless configured).
+       */
+      async purgeTrash(options: { olderThan?: Date } = {}): Promise<{ deleted: number; errors: Array<{ key?: string; message: string }> }> {
+        // Trash bucket + prefix combinations in use
+        const locations = new Map<string, { bucketKey: string; prefix: string; cutoff: Date }>();
+        for (const bucketKey of Object.keys(config.buckets || {})) {
+          const trash = getTrash(bucketKey);
+          if (!trash) continue;
+
+          const trashBucketKey = trash.bucket || bucketKey;
+          const prefix = [getTrashPrefix(trash), bucketKey].filter(Boolean).join('/') + '/';
+          const cutoff =
+            options.olderThan || new Date(Date.now() - (trash.retentionDays ?? 30) * 24 * 60 * 60 * 1000);
+          locations.set(`${trashBucketKey}|${prefix}`, { bucketKey: trashBucketKey, prefix, cutoff });
+        }
+
+        let deleted = 0;
+        const errors: Array<{ key?: string; message: string }> = [];
+
+        for (const { bucketKey, prefix, cutoff } of locations.values()) {
+          const bucket = getBucket(bucketKey, 'purgeTrash(): ');
+          const expired: string[] = [];
+          for await (const object of listObjects(bucket, prefix)) {
+            if (object.Key && object.LastModified && object.LastModified < cutoff) {
+              expired.push(object.Key);
+            }
+          }
+
+          const result = await deleteKeys(bucketKey, expired);
+          deleted += result.deleted;
+          errors.push(...result.errors);
         }
+
+        return { deleted, errors };
       },
 
       /**
-       * Replace an existing file (Media Library action). DOES NOT WORK - THÄÄNNKS @STRAPI! 
-       * Steps:
-       * 1) Delete existing file + its formats.
-       * 2) Reconstruct original folder path from provider_metadata.key.
-       * 3) Upload new file into same folder.
+       * Compare what is stored under rootPath in each bucket with what the database knows.
+       *
+       * `known` yields Strapi files (original, formats and recorded versions are used) or plain
+       * `{ bucket, key }` pairs, sync or async. Reports objects nobody references (orphans) and
+       * references whose object is gone (missing). In "delete" mode orphans are removed
+       * (through the trash when it is enabled). Trash locations are never scanned.
        */
-      async replace(file: StrapiR2.File, customParams: Partial<PutObjectCommandInput> = {}) {
-        
+      async reconcile(
+        known: Iterable<StrapiR2.File | { bucket: string; key: string }> | AsyncIterable<StrapiR2.File | { bucket: string; key: string }>,
+        options: StrapiR2.ReconcileOptions = {}
+      ): Promise<StrapiR2.ReconcileReport> {
+        const mode = options.mode || 'dry-run';
+        const minAge = (options.minAge ?? 3600) * 1000;
+        const report: StrapiR2.ReconcileReport = {
+          scanned: 0,
+          orphans: [],
+          missing: [],
+          skipped: 0,
+          deleted: 0,
+          errors: []
+        };
+
+        // Logical keys can share a physical bucket: compare per physical bucket
+        const physicalId = (bucket: StrapiR2.ResolvedBucket) => `${getConnectionId(bucket)}|${bucket.name}`;
+        const bucketKeys = options.buckets || Object.keys(config.buckets || {});
+        const physical = new Map<string, StrapiR2.ResolvedBucket>();
+        for (const bucketKey of bucketKeys) {
+          const bucket = getBucket(bucketKey, 'reconcile(): ');
+          if (!physical.has(physicalId(bucket))) physical.set(physicalId(bucket), bucket);
+        }
+
+        // physical bucket -> key -> label of the first reference
+        const references = new Map<string, Map<string, { bucket: string; label: string }>>();
+        const addReference = (bucketKey?: string, key?: string, label = 'object') => {
+          if (!bucketKey || !key) return;
+          const bucket = resolveBucket(config, bucketKey);
+          if (!bucket) {
+            report.errors.push({ bucket: bucketKey, key, message: `Unknown bucket '${bucketKey}'.` });
+            return;
+          }
+          const keys = references.get(physicalId(bucket)) || new Map();
+          if (!keys.has(key)) keys.set(key, { bucket: bucketKey, label });
+          references.set(physicalId(bucket), keys);
+        };
+
+        for await (const item of known as AsyncIterable<any>) {
+          if (!item) continue;
+          if ('provider_metadata' in item || 'formats' in item) {
+            const file = item as StrapiR2.File;
+            const name = file.id !== undefined ? `file ${file.id}` : file.name || file.hash;
+            for (const { label, meta } of getFileVariants(file)) {
+              addReference(meta.bucket, meta.key, `${name} ${label}`);
+            }
+            for (const version of (file.provider_metadata?.versions || []) as StrapiR2.FileVersion[]) {
+              for (const variant of [version.original, ...Object.values(version.formats)]) {
+                addReference(variant.bucket, variant.key, `${name} version ${version.id}`);
+              }
+            }
+          } else {
+            addReference(item.bucket, item.key);
+          }
+        }
+
+        const trashPrefixes = new Set(
+          Object.keys(config.buckets || {})
+            .map((bucketKey) => getTrash(bucketKey))
+            .filter((trash): trash is StrapiR2.TrashOptions => !!trash)
+            .map((trash) => `${getTrashPrefix(trash)}/`)
+        );
+
+        const now = Date.now();
+        for (const [id, bucket] of physical) {
+          const keys = references.get(id) || new Map();
+          const seen = new Set<string>();
+
+          try {
+            for await (const object of listObjects(bucket, filePrefix)) {
+              if (!object.Key) continue;
+              if ([...trashPrefixes].some((prefix) => object.Key!.startsWith(prefix))) continue;
+
+              report.scanned++;
+              seen.add(object.Key);
+              if (keys.has(object.Key)) continue;
+
+              if (object.LastModified && now - object.LastModified.getTime() < minAge) {
+                report.skipped++;
+                continue;
+              }
+
+              report.orphans.push({
+                bucket: bucket.key,
+                key: object.Key,
+                size: object.Size,
+                lastModified: object.LastModified
+              });
+            }
+          } catch (err: any) {
+            report.errors.push({ bucket: bucket.key, message: err?.message || String(err) });
+            continue;
+          }
+
+          for (const [key, ref] of keys) {
+            if (key.startsWith(filePrefix) && !seen.has(key)) {
+              report.missing.push({ bucket: ref.bucket, key, label: ref.label });
+            }
+          }
+        }
+
+        if (mode !== 'delete') return report;
+
+        const orphansByBucket = new Map<string, string[]>();
+        for (const orphan of report.orphans) {
+          orphansByBucket.set(orphan.bucket, [...(orphansByBucket.get(orphan.bucket) || []), orphan.key]);
+        }
+
+        for (const [bucketKey, orphanKeys] of orphansByBucket) {
+          const deletable: string[] = [];
+
+          await mapWithConcurrency(orphanKeys, concurrency, async (key) => {
+            try {
+              // Gone since the listing: nothing left to delete
+              if ((await copyToTrash(bucketKey, key)) !== 'missing') deletable.push(key);
+            } catch (err: any) {
+              report.errors.push({ bucket: bucketKey, key, message: `Could not move to trash: ${err?.message || err}` });
+            }
+          });
+
+          const result = await deleteKeys(bucketKey, deletable);
+          report.deleted += result.deleted;
+          report.errors.push(...result.errors.map((error) => ({ bucket: bucketKey, ...error })));
+
+          const failed = new Set(result.errors.map((error) => error.key));
+          for (const orphan of report.orphans) {
+            if (orphan.bucket !== bucketKey || !deletable.includes(orphan.key) || failed.has(orphan.key)) continue;
+            await recordUsage(getBucket(bucketKey, 'reconcile(): '), orphan.key, -1, orphan.size);
+          }
+        }
+
+        return report;
+      },
+
+      /**
+       * Headers a client must send with a presigned GET of an SSE-C object (empty when unencrypted).
+       * They contain the key: use them server-side only.
+       */
+      getEncryptionHeaders(file: StrapiR2.File): Record<string, string> {
+        const meta = file?.provider_metadata;
+        if (!meta?.bucket || !meta.sseKeyId) return {};
 
-        // 1. Remove old file(s)
-        await this.delete(file, customParams);
+        const sse = resolveSseKey(getBucket(meta.bucket, 'getEncryptionHeaders(): '), meta.sseKeyId)!;
+        return {
+          'x-amz-server-side-encryption-customer-algorithm': SSE_ALGORITHM,
+          'x-amz-server-side-encryption-customer-key': sse.key,
+          'x-amz-server-side-encryption-customer-key-md5': createHash('md5')
+            .update(Buffer.from(sse.key, 'base64'))
+            .digest('base64')
+        };
+      },
+
+      /**
+       * Re-encrypt every variant and recorded version with the bucket's active key (or `keyId`),
+       * copying each object onto itself. Updates sseKeyId in-place; persist the file afterwards.
+       */
+      async rotateEncryptionKey(file: StrapiR2.File, options: { keyId?: string } = {}): Promise<void> {
+        if (!file) {
+          throw new Error("[strapi-provider-cloudflare-r2-advanced] rotateEncryptionKey(): No file provided.");
+        }
+
+        const rotate = async (bucketKey: string, key: string, currentKeyId?: string) => {
+          const bucket = getBucket(bucketKey, 'rotateEncryptionKey(): ');
+          if (!bucket.options.encryption) return currentKeyId;
+
+          const keyId = options.keyId ?? bucket.options.encryption.activeKeyId;
+          if (keyId === currentKeyId) return currentKeyId;
+
+          return copyObject(
+            { bucket, key, sseKeyId: currentKeyId ?? null },
+            { bucket, key, sseKeyId: keyId }
+          );
+        };
+
+        await mapWithConcurrency(getFileVariants(file), concurrency, async ({ meta, target }) => {
+          if (!meta.bucket || !meta.key) return;
+          const sseKeyId = await rotate(meta.bucket, meta.key, meta.sseKeyId);
+          if (!sseKeyId || sseKeyId === meta.sseKeyId) return;
+
+          // Re-encrypting changes the ETag
+          const head = await headObject(getBucket(meta.bucket, 'rotateEncryptionKey(): '), meta.key, sseKeyId);
+          target.provider_metadata = { ...target.provider_metadata, sseKeyId, etag: head?.ETag };
+        });
+
+        for (const version of this.listVersions(file)) {
+          for (const variant of [version.original, ...Object.values(version.formats)]) {
+            const sseKeyId = await rotate(variant.bucket, variant.key, variant.sseKeyId);
+            if (sseKeyId) variant.sseKeyId = sseKeyId;
+          }
+        }
+      },
+
+      /**
+       * Count the objects and bytes in a bucket, optionally below a key prefix (rootPath included).
+       * Lists the bucket every time and refreshes the totals quotas are checked against.
+       */
+      async getUsage(options: { bucket: string; prefix?: string }): Promise<{
+        bucket: string;
+        prefix: string;
+        objects: number;
+        bytes: number;
+      }> {
+        const bucket = getBucket(options.bucket, 'getUsage(): ');
+        const prefix = options.prefix || '';
+        const { objects, bytes } = await countUsage(bucket, prefix);
+        return { bucket: bucket.key, prefix, objects, bytes };
+      },
+
+      /**
+       * HEAD every variant and compare size, ETag and checksum with what upload() recorded.
+       * `deep` downloads each object and recomputes its checksum (needed for multipart uploads,
+       * whose stored checksum is a checksum of the parts).
+       */
+      async verify(file: StrapiR2.File, options: { deep?: boolean } = {}): Promise<StrapiR2.VerifyReport> {
+        if (!file) {
+          throw new Error("[strapi-provider-cloudflare-r2-advanced] verify(): No file provided.");
+        }
+
+        const targets: Array<{ label: string; meta: any }> = [{ label: 'original', meta: file.provider_metadata }];
+        for (const [name, fmt] of Object.entries<any>(file.formats || {})) {
+          if (fmt?.provider_metadata?.synthesized) continue;
+          targets.push({ label: `format:${name}`, meta: fmt?.provider_metadata });
+        }
+
+        const variants = await mapWithConcurrency(targets, concurrency, async ({ label, meta }) => {
+          type Entry = StrapiR2.VerifyReport['variants'][number];
+          if (!meta?.bucket || !meta?.key) return { label, status: 'unrecorded' } as Entry;
+
+          const bucket = getBucket(meta.bucket, 'verify(): ');
+          const base = { label, bucket: bucket.key, key: meta.key as string };
+          const algorithm = meta.checksum?.algorithm as StrapiR2.ChecksumAlgorithm | undefined;
+          const sse = resolveSseKey(bucket, meta.sseKeyId ?? null);
+
+          const head = await driver.head(bucket, meta.key, { sse, checksums: !!algorithm });
+          if (!head) return { ...base, status: 'missing' } as Entry;
+
+          if (meta.size !== undefined && head.ContentLength !== meta.size) {
+            return { ...base, status: 'size-mismatch', expected: meta.size, actual: head.ContentLength } as Entry;
+          }
+          if (meta.etag && head.ETag !== meta.etag) {
+            return { ...base, status: 'etag-mismatch', expected: meta.etag, actual: head.ETag } as Entry;
+          }
+          if (!algorithm) {
+            return { ...base, status: meta.etag || meta.size !== undefined ? 'ok' : 'unrecorded' } as Entry;
+          }
+
+          let actual = fullObjectChecksum(head, algorithm);
+          if (options.deep) {
+            const object = await driver.get(bucket, meta.key, { sse });
+            const checksum = createChecksum(algorithm);
+            for await (const chunk of object.Body) checksum.update(chunk);
+            actual = checksum.digest();
+          }
+
+          if (actual && actual !== meta.checksum.value) {
+            return { ...base, status: 'checksum-mismatch', expected: meta.checksum.value, actual } as Entry;
+          }
+          return { ...base, status: 'ok' } as Entry;
+        });
+
+        return { ok: variants.every((v) => v.status === 'ok'), variants };
+      },
+
+      /**
+       * Backfill provider_metadata for a file uploaded by another S3/R2 provider, from its `url`
+       * (and each format's url). Optionally copies the objects to where upload() would put them now.
+       * Updates the file in-place; persist it afterwards.
+       */
+      async migrateFile(
+        file: StrapiR2.File,
+        options: StrapiR2.MigrationOptions = {}
+      ): Promise<StrapiR2.MigrationResult> {
+        const { verify = true, relocate = false, deleteSource = false, force = false } = options;
+        const result: StrapiR2.MigrationResult = { file, success: true, variants: [] };
+
+        const targets: Array<{ label: string; target: any }> = [{ label: 'original', target: file }];
+        for (const [name, fmt] of Object.entries<any>(file.formats || {})) {
+          if (fmt) targets.push({ label: `format:${name}`, target: fmt });
+        }
+
+        for (const { label, target } of targets) {
+          const entry: StrapiR2.MigrationResult['variants'][number] = { label };
+          result.variants.push(entry);
+
+          try {
+            const meta = target.provider_metadata || {};
+            let location: { bucket: string; key: string } | null =
+              !force && meta.bucket && meta.key ? { bucket: meta.bucket, key: meta.key } : null;
+
+            if (location) {
+              entry.skipped = true;
+            } else {
+              if (!target.url) throw new Error('No url to migrate from.');
+
+              const candidates = locateUrl(target.url, config, baseUrl, options.legacyDomains);
+              if (candidates.length === 0) throw new Error(`No configured bucket matches '${target.url}'.`);
+
+              if (verify) {
+                for (const candidate of candidates) {
+                  // Objects from other providers are never SSE-C encrypted with our keys
+                  if (await headObject(getBucket(candidate.bucket, 'migrateFile(): '), candidate.key, null)) {
+                    location = candidate;
+                    break;
+                  }
+                }
+                if (!location) throw new Error(`Object for '${target.url}' not found in any matching bucket.`);
+              } else {
+                location = candidates[0];
+              }
+
+              target.provider_metadata = {
+                ...meta,
+                bucket: location.bucket,
+                key: location.key,
+                isPrivate: isPrivateBucket(config, location.bucket)
+              };
+            }
+
+            entry.bucket = location.bucket;
+            entry.key = location.key;
+
+            if (!relocate) continue;
+
+            // Where a fresh upload of this variant would go
+            const variantFile: StrapiR2.File = {
+              name: target.name || file.name,
+              hash: target.hash || file.hash,
+              ext: target.ext || file.ext,
+              mime: target.mime || file.mime,
+              size: target.size ?? file.size,
+              path: file.path
+            };
+            const bucketInfo = getBucketInfo(variantFile, config);
+            const bucket = getBucket(bucketInfo.bucketKey, 'migrateFile(): ');
+            const source = {
+              bucket: getBucket(location.bucket, 'migrateFile(): '),
+              key: location.key,
+              sseKeyId: (target.provider_metadata.sseKeyId as string | undefined) ?? null
+            };
+            const contentAddressed = !!bucket.options.contentAddressed;
+            const template = getKeyTemplate(bucket);
+
+            let sha256: string | undefined;
+            if (template?.includes('{sha256}')) {
+              const object = await driver.get(source.bucket, source.key, {
+                sse: resolveSseKey(source.bucket, source.sseKeyId)
+              });
+              const hash = createHash('sha256');
+              for await (const chunk of object.Body) hash.update(chunk);
+              sha256 = hash.digest('hex');
+            }
+
+            const newKey = getFileKeyForUpload(variantFile, {
+              routeFolder: bucketInfo.folder,
+              template,
+              sha256
+            });
+
+            if (bucket.key === location.bucket && newKey === location.key) continue;
+
+            let sseKeyId = resolveSseKey(bucket)?.id;
+            if (!(contentAddressed && (await headObject(bucket, newKey)))) {
+              sseKeyId = await copyObject(source, { bucket, key: newKey });
+              await recordUsage(bucket, newKey, 1, meta.size);
+            }
+
+            const {
+              contentAddressed: wasShared,
+              sha256: _oldSha256,
+              sseKeyId: _oldKeyId,
+              ...previousMeta
+            } = target.provider_metadata;
+            const isPrivate = isPrivateBucket(config, bucket.key);
+            target.provider_metadata = {
+              ...previousMeta,
+              bucket: bucket.key,
+              key: newKey,
+              isPrivate,
+              ...(sseKeyId ? { sseKeyId } : {}),
+              ...(contentAddressed ? { contentAddressed: true, sha256 } : {})
+            };
+            target.url = await resolveFileUrl(bucket.key, bucket.name, newKey, isPrivate, sseKeyId ?? null);
+            entry.relocatedTo = { bucket: bucket.key, key: newKey };
+
+            if (deleteSource && !wasShared) {
+              await deleteQuietly([{ bucket: location.bucket, key: location.key, size: meta.size }]);
+            }
+          } catch (err: any) {
+            entry.error = err?.message || String(err);
+            result.success = false;
+          }
+        }
+
+        return result;
+      },
+
+      /**
+       * migrateFile() for many files, `concurrency` at a time.
+       */
+      async migrateMany(
+        files: StrapiR2.File[],
+        options: StrapiR2.MigrationOptions = {}
+      ): Promise<StrapiR2.MigrationResult[]> {
+        return mapWithConcurrency(files, concurrency, (file) => this.migrateFile(file, options));
+      },
 
+      /**
+       * Replace an existing file (Media Library action).
+       * Steps:
+       * 1) Keep a copy of the current original + formats if versioning is enabled.
+       * 2) Upload the new content into the same bucket and folder.
+       * 3) Only then remove the old objects that were not overwritten.
+       * 4) Drop the stored formats from file.formats (they showed the old content); synthesized
+       *    formats are re-pointed at the new original.
+       */
+      async replace(file: StrapiR2.File, customParams: Partial<PutObjectCommandInput> = {}) {
         const oldMeta = file.provider_metadata;
-        if (!oldMeta || !oldMeta.key) {
-          throw new Error("[R2] Cannot replace: provider_metadata.key missing.");
+        if (!oldMeta || !oldMeta.bucket || !oldMeta.key) {
+          throw new Error(
+            "[strapi-provider-cloudflare-r2-advanced] replace(): provider_metadata.bucket/key missing."
+          );
         }
 
-        const oldKey = oldMeta.key;
+        const oldVariants = getFileVariants(file).map(({ meta }) => ({ ...meta }));
+
+        const tenant = await resolveTenant(file, 'replace');
+        assertTenantAccess(tenant, oldMeta.bucket, oldMeta.key);
+
+        // 1. Archive the current content (non-destructive)
+        const version = await archiveVersion(file);
+
+        // 2. Upload into the same folder, keeping the file name rules of upload()
+        const oldKey: string = oldMeta.key;
         const lastSlash = oldKey.lastIndexOf("/");
-        const originalFolder = lastSlash >= 0 ? oldKey.slice(0, lastSlash) : "";
+        const originalFolder = lastSlash >= 0 ? oldKey.slice(0, lastSlash + 1) : "";
+
+        getLogger()?.debug?.(
+          `[strapi-provider-cloudflare-r2-advanced] replace() ${oldMeta.bucket}/${oldKey} with ${file.name}`
+        );
+        await uploadCore(file, customParams, {}, {
+          bucketKey: oldMeta.bucket,
+          key: `${originalFolder}${file.hash}${file.ext}`,
+          tenant
+        });
+
+        if (version) {
+          await pushVersion(file, version);
+        }
+
+        // 3. Remove old objects, unless the new upload overwrote them (best effort: the file is replaced)
+        const newMeta = file.provider_metadata!;
+        const overwritten = (meta: any) => meta.bucket === newMeta.bucket && meta.key === newMeta.key;
+        for (const meta of oldVariants.filter((meta) => overwritten(meta) && !meta.contentAddressed)) {
+          await recordUsage(getBucket(meta.bucket as string, 'replace(): '), meta.key as string, -1, meta.size);
+        }
+        await deleteQuietly(
+          oldVariants
+            .filter((meta) => !meta.contentAddressed)
+            .filter((meta) => !overwritten(meta))
+        );
+
+        // 4. Only the original was uploaded
+        const formats: Record<string, any> = {};
+        for (const [name, fmt] of Object.entries<any>(file.formats || {})) {
+          if (!fmt?.provider_metadata?.synthesized) continue;
+          formats[name] = { ...fmt, provider_metadata: { ...fmt.provider_metadata, bucket: newMeta.bucket, key: newMeta.key } };
+        }
+        file.formats = Object.keys(formats).length ? formats : null;
+        await this.refreshUrls(file);
+      },
+
+      /**
+       * Previous versions kept by replace(), oldest first.
+       */
+      listVersions(file: StrapiR2.File): StrapiR2.FileVersion[] {
+        return [...((file.provider_metadata?.versions as StrapiR2.FileVersion[] | undefined) || [])];
+      },
+
+      /**
+       * Put a previous version back in place. The current content becomes a new version first,
+       * so a restore can itself be undone. Updates the file fields in-place.
+       */
+      async restoreVersion(file: StrapiR2.File, versionId: string): Promise<void> {
+        const version = this.listVersions(file).find((v) => v.id === versionId);
+        if (!version) {
+          throw new Error(
+            `[strapi-provider-cloudflare-r2-advanced] restoreVersion(): Unknown version '${versionId}'.`
+          );
+        }
+
+        const currentVariants = getFileVariants(file).map(({ meta }) => ({ ...meta }));
+        const current = await archiveVersion(file);
 
-        
+        // The restored objects may replace current ones of unknown size
+        const restoreTo = async (variant: StrapiR2.VersionVariant, bucketKey: string) => {
+          const bucket = getBucket(bucketKey, 'restoreVersion(): ');
+          const sseKeyId = await copyObject(
+            { bucket: getBucket(variant.bucket, 'restoreVersion(): '), key: variant.key, sseKeyId: variant.sseKeyId ?? null },
+            { bucket, key: variant.originalKey }
+          );
+          await recordUsage(bucket, variant.originalKey, 1);
+          return sseKeyId;
+        };
+
+        const bucketKey = file.provider_metadata!.bucket as string;
+        const originalKeyId = await restoreTo(version.original, bucketKey);
+
+        const formats: Record<string, any> = {};
+        await mapWithConcurrency(Object.entries(version.formats), concurrency, async ([name, variant]) => {
+          const sseKeyId = await restoreTo(variant, bucketKey);
+          const { sseKeyId: _oldKeyId, ...formatMeta } = variant.format.provider_metadata || {};
+          formats[name] = {
+            ...variant.format,
+            provider_metadata: {
+              ...formatMeta,
+              bucket: bucketKey,
+              key: variant.originalKey,
+              ...(sseKeyId ? { sseKeyId } : {})
+            }
+          };
+        });
+
+        const isPrivate = isPrivateBucket(config, bucketKey);
+        const bucketName = getBucket(bucketKey, 'restoreVersion(): ').name;
+
+        // etag/size/checksum describe the replaced content, not the restored one
+        const {
+          sseKeyId: _oldKeyId,
+          etag: _etag,
+          size: _size,
+          checksum: _checksum,
+          ...currentMeta
+        } = file.provider_metadata || {};
 
-        // Apply fix — make Strapi-admin replacement consistent
-        file.path = `bucket:${oldMeta.bucket}:${originalFolder}`;
-        (file as any)._replaceOriginalFolder = originalFolder;
+        Object.assign(file, version.file);
+        file.provider_metadata = {
+          ...currentMeta,
+          bucket: bucketKey,
+          key: version.original.originalKey,
+          isPrivate,
+          ...(originalKeyId ? { sseKeyId: originalKeyId } : {})
+        };
+        file.url = await resolveFileUrl(bucketKey, bucketName, version.original.originalKey, isPrivate, originalKeyId ?? null);
+
+        for (const format of Object.values(formats)) {
+          format.url = await resolveFileUrl(
+            bucketKey,
+            bucketName,
+            format.provider_metadata.key,
+            isPrivate,
+            format.provider_metadata.sseKeyId ?? null
+          );
+        }
+        // Current stored formats are removed below; synthesized ones follow the restored original
+        for (const [name, fmt] of Object.entries<any>(file.formats || {})) {
+          if (!fmt?.provider_metadata?.synthesized || formats[name]) continue;
+          formats[name] = { ...fmt, provider_metadata: { ...fmt.provider_metadata, bucket: bucketKey, key: version.original.originalKey } };
+        }
+        file.formats = Object.keys(formats).length ? formats : null;
+        await this.refreshUrls(file);
 
+        if (current) {
+          await pushVersion(file, current);
+        }
 
-        // console.log("[R2-ADVANCED] Calling uploadCore() for replacement…");
-        await uploadCore(file, customParams);
+        // Remove current objects that the restore did not overwrite
+        const restoredKeys = new Set(
+          [version.original, ...Object.values(version.formats)].map((v) => `${bucketKey}/${v.originalKey}`)
+        );
+        await deleteQuietly(
+          currentVariants
+            .filter((meta) => !meta.contentAddressed)
+            .filter((meta) => !restoredKeys.has(`${meta.bucket}/${meta.key}`))
+        );
       }
     };
   }
@@ -1,4 +1,4 @@
-const providerFactory = require('../lib');
+const providerFactory = require('../dist');
 
 describe('strapi-provider-cloudflare-r2-advanced', () => {
   it('exports an init function', () => {
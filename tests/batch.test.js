@@ -0,0 +1,68 @@
+const { existsSync } = require('node:fs');
+const { createLocalProvider, createFile, mockS3, provider, S3_OPTIONS } = require('./helpers');
+
+describe('batch operations', () => {
+  describe('on the local driver', () => {
+    let ctx;
+    afterEach(() => ctx.cleanup());
+
+    it('deletes many files with their formats and reports each one', async () => {
+      ctx = createLocalProvider();
+      const files = [createFile({ path: 'bucket:public:a' }), createFile({ path: 'bucket:private:b' })];
+      for (const file of files) await ctx.provider.upload(file);
+      const thumbnail = createFile({ hash: `thumbnail_${files[0].hash}`, path: 'bucket:public:a' });
+      await ctx.provider.upload(thumbnail);
+      files[0].formats = { thumbnail };
+
+      const results = await ctx.provider.deleteMany(files);
+
+      expect(results).toEqual(files.map((file) => expect.objectContaining({ file, success: true })));
+      expect(existsSync(ctx.path('public-bucket', files[0].provider_metadata.key))).toBe(false);
+      expect(existsSync(ctx.path('public-bucket', thumbnail.provider_metadata.key))).toBe(false);
+      expect(existsSync(ctx.path('private-bucket', files[1].provider_metadata.key))).toBe(false);
+    });
+
+    it('moves many files and keeps going after a failure', async () => {
+      ctx = createLocalProvider();
+      const ok = createFile({ path: 'bucket:public:a' });
+      await ctx.provider.upload(ok);
+      const missing = createFile();
+      missing.provider_metadata = { bucket: 'public', key: 'a/missing.txt' };
+
+      const results = await ctx.provider.moveMany([missing, ok], { toPath: 'bucket:private:archive' });
+
+      expect(results[0]).toMatchObject({ file: missing, success: false, errors: [expect.objectContaining({ message: expect.any(String) })] });
+      expect(results[1]).toMatchObject({ file: ok, success: true });
+      expect(ok.provider_metadata).toMatchObject({ bucket: 'private', key: `archive/${ok.hash}.txt` });
+    });
+  });
+
+  it('sends one DeleteObjects request per bucket and 1000 keys', async () => {
+    const s3 = mockS3((command) =>
+      command.constructor.name === 'DeleteObjectsCommand'
+        ? { Errors: command.input.Delete.Objects.filter((o) => o.Key === 'x/7.txt').map((o) => ({ Key: o.Key, Message: 'denied' })) }
+        : {}
+    );
+    try {
+      const r2 = provider.init({ ...S3_OPTIONS, buckets: { a: 'a-bucket', b: 'b-bucket' } });
+      const files = Array.from({ length: 1500 }, (_, i) => ({
+        ...createFile(),
+        provider_metadata: { bucket: i < 1200 ? 'a' : 'b', key: `x/${i}.txt` }
+      }));
+
+      const results = await r2.deleteMany(files);
+
+      const requests = s3.calls.filter((call) => call.name === 'DeleteObjectsCommand');
+      expect(requests.map((call) => [call.input.Bucket, call.input.Delete.Objects.length]).sort()).toEqual([
+        ['a-bucket', 1000],
+        ['a-bucket', 200],
+        ['b-bucket', 300]
+      ]);
+      expect(results.filter((result) => !result.success)).toEqual([
+        expect.objectContaining({ file: files[7], errors: [{ key: 'x/7.txt', message: 'denied' }] })
+      ]);
+    } finally {
+      s3.restore();
+    }
+  });
+});
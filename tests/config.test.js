@@ -0,0 +1,93 @@
+const { provider, S3_OPTIONS } = require('./helpers');
+
+describe('configuration', () => {
+  describe('init validation', () => {
+    const problemsOf = (options) => {
+      try {
+        provider.init(options);
+      } catch (err) {
+        return err.message.split('\n').slice(1).map((line) => line.replace(/^\s+- /, ''));
+      }
+      return [];
+    };
+
+    it('lists every problem at once', () => {
+      expect(
+        problemsOf({
+          ...S3_OPTIONS,
+          buckets: {
+            uploads: 'uploads-bucket',
+            invoices: '',
+            assets: { name: 'assets-bucket', contentAddressed: true, keyTemplate: '{folder}/{hash}{ext}' }
+          },
+          defaultBucket: 'uplaods',
+          publicDomains: { uploads: 'cdn.example.com', ghost: 'https://ghost.example.com' },
+          routes: [{ mime: 'video/*', bucket: 'videos' }],
+          signedUrlExpires: 700000
+        })
+      ).toEqual(
+        expect.arrayContaining([
+          'buckets.invoices: bucket name is missing (is the env variable set?)',
+          'buckets.assets.keyTemplate must contain {sha256} on a content-addressed bucket',
+          "defaultBucket refers to unknown bucket 'uplaods'",
+          'publicDomains.uploads must be a URL with protocol, e.g. "https://…" (got "cdn.example.com")',
+          "publicDomains.ghost refers to unknown bucket 'ghost'",
+          "routes[0].bucket refers to unknown bucket 'videos'",
+          'signedUrlExpires must be between 1 and 604800 seconds (7 days)'
+        ])
+      );
+    });
+
+    it('requires an endpoint for the S3 driver and a secret for the local driver', () => {
+      expect(problemsOf({ buckets: { uploads: 'u' } })).toContain('buckets.uploads: no endpoint (set endpoint at the root or on the bucket)');
+      expect(problemsOf({ driver: 'local', local: { root: '/tmp/x', baseUrl: 'http://localhost:1337/r2' }, buckets: { uploads: 'u' } }))
+        .toContain('local.secret: required for driver "local" (signs private URLs)');
+    });
+
+    it('accepts a valid configuration', () => {
+      expect(problemsOf({ ...S3_OPTIONS, buckets: { uploads: 'u' }, publicDomains: { uploads: 'https://cdn.example.com' } })).toEqual([]);
+    });
+  });
+
+  describe('loadEnvConfig', () => {
+    it('builds buckets and public domains from CF_* variables', () => {
+      expect(
+        provider.loadEnvConfig({
+          CF_BUCKETS_UPLOADS: 'uploads-bucket',
+          CF_BUCKETS_INTERNAL_ASSETS: 'internal-bucket',
+          CF_BUCKETS_EMPTY: '',
+          CF_PUBLIC_ACCESS_URL_UPLOADS: 'https://cdn.example.com',
+          OTHER: 'x'
+        })
+      ).toEqual({
+        buckets: { uploads: 'uploads-bucket', internalAssets: 'internal-bucket' },
+        publicDomains: { uploads: 'https://cdn.example.com' }
+      });
+    });
+  });
+
+  describe('getCspDirectives', () => {
+    it('lists public domains, token domains and presigned hosts', () => {
+      const csp = provider.getCspDirectives({
+        ...S3_OPTIONS,
+        buckets: {
+          uploads: 'uploads-bucket',
+          private: 'private-bucket',
+          invoices: { name: 'invoices-bucket', tokenAuth: { domain: 'https://private.example.com/files', secret: 's' } }
+        },
+        publicDomains: { uploads: 'https://cdn.example.com/media' }
+      });
+
+      expect(csp['img-src']).toEqual([
+        "'self'",
+        'data:',
+        'blob:',
+        'market-assets.strapi.io',
+        'https://cdn.example.com',
+        'https://private-bucket.account.r2.cloudflarestorage.com',
+        'https://private.example.com'
+      ]);
+      expect(csp['media-src']).toEqual(csp['img-src']);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+const { createLocalProvider, createFile } = require('./helpers');
+
+describe('isPrivate / checkFileSize', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  it('is private as soon as one bucket has no public domain', () => {
+    ctx = createLocalProvider();
+    expect(ctx.provider.isPrivate()).toBe(true);
+  });
+
+  it('is public when every bucket has a public domain', () => {
+    ctx = createLocalProvider({
+      buckets: { public: 'public-bucket' },
+      publicDomains: { public: 'http://localhost:1337/r2-local/public' }
+    });
+    expect(ctx.provider.isPrivate()).toBe(false);
+  });
+
+  it('enforces Strapi’s sizeLimit and the lower bucket maxFileSize', () => {
+    ctx = createLocalProvider({
+      buckets: { public: 'public-bucket', small: { name: 'small-bucket', maxFileSize: 1000 } },
+      publicDomains: { public: 'http://localhost:1337/r2-local/public' }
+    });
+    const file = createFile({ size: 5 }); // 5 KB
+
+    expect(() => ctx.provider.checkFileSize(file, { sizeLimit: 10_000 })).not.toThrow();
+    expect(() => ctx.provider.checkFileSize(file, { sizeLimit: 4_000 })).toThrow(
+      expect.objectContaining({ name: 'PayloadTooLargeError', status: 413 })
+    );
+    expect(() =>
+      ctx.provider.checkFileSize({ ...file, path: 'bucket:small:x' }, { sizeLimit: 10_000 })
+    ).toThrow(expect.objectContaining({ details: { bucket: 'small', sizeLimit: 1000 } }));
+  });
+});
@@ -0,0 +1,64 @@
+const { provider, createFile, mockS3, notFound, S3_OPTIONS } = require('./helpers');
+
+const accessKeyOf = async (client) => (await client.config.credentials()).accessKeyId;
+
+describe('per-bucket credentials, endpoints and ACLs', () => {
+  let s3;
+  afterEach(() => s3.restore());
+
+  const init = () =>
+    provider.init({
+      ...S3_OPTIONS,
+      params: { ACL: 'public-read' },
+      buckets: {
+        uploads: 'uploads-bucket',
+        invoices: {
+          name: 'invoices-bucket',
+          endpoint: 'https://other-account.r2.cloudflarestorage.com',
+          accessKeyId: 'invoices-key',
+          secretAccessKey: 'invoices-secret',
+          acl: 'private'
+        }
+      },
+      publicDomains: { uploads: 'https://cdn.example.com' }
+    });
+
+  it('uses the root connection and ACL for plain bucket entries', async () => {
+    s3 = mockS3();
+    await init().upload(createFile({ path: 'bucket:uploads:docs' }));
+
+    const put = s3.calls.find((call) => call.name === 'PutObjectCommand');
+    expect(put.input).toMatchObject({ Bucket: 'uploads-bucket', ACL: 'public-read' });
+    expect(await accessKeyOf(put.client)).toBe('root-key');
+  });
+
+  it('uses the bucket’s own credentials, endpoint and ACL', async () => {
+    s3 = mockS3();
+    await init().upload(createFile({ path: 'bucket:invoices:2024' }));
+
+    const put = s3.calls.find((call) => call.name === 'PutObjectCommand');
+    expect(put.input).toMatchObject({ Bucket: 'invoices-bucket', ACL: 'private' });
+    expect(await accessKeyOf(put.client)).toBe('invoices-key');
+    expect((await put.client.config.endpoint()).hostname).toBe('other-account.r2.cloudflarestorage.com');
+  });
+
+  it('streams objects across connections when moving between accounts', async () => {
+    s3 = mockS3((command) => {
+      if (command.constructor.name === 'HeadObjectCommand') throw notFound();
+      if (command.constructor.name === 'GetObjectCommand') return { Body: Buffer.from('x'), ContentType: 'text/plain' };
+      return {};
+    });
+    const file = createFile();
+    file.provider_metadata = { bucket: 'uploads', key: 'docs/a.txt' };
+
+    await init().move(file, { toPath: 'bucket:invoices:archive' });
+
+    const names = s3.calls.map((call) => call.name);
+    expect(names).toContain('GetObjectCommand');
+    expect(names).not.toContain('CopyObjectCommand');
+    const put = s3.calls.find((call) => call.name === 'PutObjectCommand');
+    expect(put.input).toMatchObject({ Bucket: 'invoices-bucket', Key: 'archive/a.txt' });
+    expect(await accessKeyOf(put.client)).toBe('invoices-key');
+    expect(file.provider_metadata).toMatchObject({ bucket: 'invoices', key: 'archive/a.txt' });
+  });
+});
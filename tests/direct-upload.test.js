@@ -0,0 +1,230 @@
+const { provider, mockS3, notFound, S3_OPTIONS } = require('./helpers');
+
+const decode = (token) => JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+
+const forge = (token, changes) => {
+  const [, mac] = token.split('.');
+  const payload = Buffer.from(JSON.stringify({ ...decode(token), ...changes })).toString('base64url');
+  return `${payload}.${mac}`;
+};
+
+describe('direct uploads', () => {
+  let s3;
+  afterEach(() => s3?.restore());
+
+  const init = (options = {}) =>
+    provider.init({
+      ...S3_OPTIONS,
+      buckets: { uploads: 'uploads-bucket', videos: 'videos-bucket' },
+      publicDomains: { uploads: 'https://cdn.example.com' },
+      directUploadSecret: 'direct-secret',
+      ...options
+    });
+
+  // HEAD answers with whatever `object` holds; `object.nonce` is the stored x-amz-meta-direct-upload,
+  // `object.completed` what a CompleteMultipartUpload stores
+  const storage = (object) =>
+    mockS3((command) => {
+      switch (command.constructor.name) {
+        case 'CreateMultipartUploadCommand':
+          return { UploadId: 'upload-1' };
+        case 'CompleteMultipartUploadCommand':
+          Object.assign(object, object.completed);
+          return {};
+        case 'ListObjectsV2Command':
+          return { Contents: object.listed || [] };
+        case 'CopyObjectCommand':
+          object.nonce = command.input.Metadata['direct-upload'];
+          object.etag = '"marked"';
+          return {};
+        case 'HeadObjectCommand':
+          if (!object.size) throw notFound();
+          return {
+            ContentLength: object.size,
+            ContentType: object.type,
+            ETag: object.etag || '"etag"',
+            Metadata: object.nonce ? { 'direct-upload': object.nonce } : {}
+          };
+        default:
+          return {};
+      }
+    });
+
+  const request = { name: 'notes.txt', mime: 'text/plain', size: 11, path: 'bucket:uploads:docs' };
+
+  it('signs the nonce into the presigned PUT and returns a token', async () => {
+    s3 = storage({});
+    const direct = await init().createDirectUpload(request);
+
+    expect(direct).toMatchObject({ bucket: 'uploads', key: `docs/${direct.hash}.txt`, size: 11 });
+    const { nonce, key } = decode(direct.token);
+    expect(key).toBe(direct.key);
+    expect(new URL(direct.url).searchParams.get('x-amz-meta-direct-upload')).toBe(nonce);
+  });
+
+  it('finalizes with the signed bucket and key', async () => {
+    const object = {};
+    s3 = storage(object);
+    const r2 = init();
+    const direct = await r2.createDirectUpload(request);
+    Object.assign(object, { size: 11, type: 'text/plain', nonce: decode(direct.token).nonce });
+
+    const result = await r2.finalizeDirectUpload({ token: direct.token });
+
+    expect(result).toMatchObject({
+      url: `https://cdn.example.com/docs/${direct.hash}.txt`,
+      size: 0.011,
+      provider_metadata: { bucket: 'uploads', key: direct.key, size: 11 }
+    });
+  });
+
+  it('refuses tampered, foreign and expired tokens', async () => {
+    s3 = storage({ size: 11, type: 'text/html' });
+    const direct = await init().createDirectUpload(request);
+    const invalid = expect.objectContaining({ status: 400, message: expect.stringContaining('Invalid or expired') });
+
+    await expect(init().finalizeDirectUpload({ token: forge(direct.token, { key: 'docs/someone-else.txt' }) })).rejects.toEqual(invalid);
+    await expect(init({ directUploadSecret: 'other' }).finalizeDirectUpload({ token: direct.token })).rejects.toEqual(invalid);
+
+    jest.useFakeTimers({ now: Date.now() + 2 * 3600 * 1000 + 1000, doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      await expect(init().finalizeDirectUpload({ token: direct.token })).rejects.toEqual(invalid);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(s3.calls.map((call) => call.name)).not.toContain('DeleteObjectCommand');
+  });
+
+  it('deletes a rejected object only when it carries the upload’s nonce', async () => {
+    const object = { size: 11, type: 'text/html' };
+    s3 = storage(object);
+    const r2 = init();
+    const direct = await r2.createDirectUpload(request);
+
+    // Someone else's object at the key: rejected, but left alone
+    object.nonce = 'someone-else';
+    await expect(r2.finalizeDirectUpload({ token: direct.token })).rejects.toThrow('not written by this upload');
+    expect(s3.calls.map((call) => call.name)).not.toContain('DeleteObjectCommand');
+
+    object.nonce = decode(direct.token).nonce;
+    await expect(r2.finalizeDirectUpload({ token: direct.token })).rejects.toThrow("stored type 'text/html'");
+    const deletion = s3.calls.find((call) => call.name === 'DeleteObjectCommand');
+    expect(deletion.input).toEqual({ Bucket: 'uploads-bucket', Key: direct.key });
+  });
+
+  it('rejects and deletes an object larger than declared', async () => {
+    const object = {};
+    s3 = storage(object);
+    const r2 = init();
+    const direct = await r2.createDirectUpload(request);
+
+    Object.assign(object, { size: 500, type: 'text/plain', nonce: decode(direct.token).nonce });
+    await expect(r2.finalizeDirectUpload({ token: direct.token })).rejects.toMatchObject({
+      status: 413,
+      message: expect.stringContaining('larger than the 11 Bytes declared')
+    });
+    const deletion = s3.calls.find((call) => call.name === 'DeleteObjectCommand');
+    expect(deletion.input).toEqual({ Bucket: 'uploads-bucket', Key: direct.key });
+  });
+
+  it('checks the quota again with the stored size', async () => {
+    const object = {};
+    s3 = storage(object);
+    const r2 = init({ buckets: { uploads: { name: 'uploads-bucket', quota: { maxBytes: 20 } } } });
+
+    // Both fit when they are created; only one fits once stored
+    const first = await r2.createDirectUpload(request);
+    const second = await r2.createDirectUpload(request);
+
+    Object.assign(object, { size: 11, type: 'text/plain', nonce: decode(first.token).nonce });
+    await r2.finalizeDirectUpload({ token: first.token });
+    object.nonce = decode(second.token).nonce;
+    await expect(r2.finalizeDirectUpload({ token: second.token })).rejects.toMatchObject({ status: 413 });
+
+    const deletions = s3.calls.filter((call) => call.name === 'DeleteObjectCommand');
+    expect(deletions.map((call) => call.input.Key)).toEqual([second.key]);
+  });
+
+  it('does not count the finalized object twice when totals are listed', async () => {
+    const object = {};
+    s3 = storage(object);
+    const r2 = init({ buckets: { uploads: { name: 'uploads-bucket', quota: { maxBytes: 11 } } }, usage: { maxAge: 0 } });
+    const direct = await r2.createDirectUpload(request);
+
+    Object.assign(object, { size: 11, type: 'text/plain', nonce: decode(direct.token).nonce, listed: [{ Key: direct.key, Size: 11 }] });
+    await expect(r2.finalizeDirectUpload({ token: direct.token })).resolves.toMatchObject({ size: 0.011 });
+  });
+
+  it('can be finalized again without touching the accepted object', async () => {
+    const object = {};
+    s3 = storage(object);
+    const r2 = init({ buckets: { uploads: { name: 'uploads-bucket', quota: { maxObjects: 1 } } } });
+    const direct = await r2.createDirectUpload(request);
+
+    Object.assign(object, { size: 11, type: 'text/plain', nonce: decode(direct.token).nonce });
+    const result = await r2.finalizeDirectUpload({ token: direct.token });
+    expect(object.nonce).toBe(`${decode(direct.token).nonce}:finalized`);
+    expect(result.provider_metadata.etag).toBe('"marked"');
+
+    // The bucket is now at its quota: a retry must neither fail nor delete the file
+    await expect(r2.finalizeDirectUpload({ token: direct.token })).resolves.toEqual(result);
+    const names = s3.calls.map((call) => call.name);
+    expect(names).not.toContain('DeleteObjectCommand');
+    expect(names.filter((name) => name === 'CopyObjectCommand')).toHaveLength(1);
+  });
+
+  it('refuses hashes and extensions that leave the tenant folder', async () => {
+    s3 = storage({});
+    const r2 = init({ tenant: () => ({ prefix: 'company/1' }) });
+    const png = { ...request, name: 'logo.png', mime: 'image/png', path: 'bucket:uploads:a' };
+
+    for (const changes of [{ hash: '../../company/2/logo' }, { ext: '/../../../company/2/y.png' }, { hash: '..', ext: '' }, { hash: 'x\u0000' }]) {
+      await expect(r2.createDirectUpload({ ...png, ...changes })).rejects.toMatchObject({ status: 400 });
+    }
+    await expect(r2.createDirectUpload({ ...png, hash: 'logo_abc' })).resolves.toMatchObject({ key: 'company/1/a/logo_abc.png' });
+  });
+
+  it('refuses content-addressed buckets', async () => {
+    s3 = storage({});
+    const r2 = init({
+      buckets: { uploads: { name: 'uploads-bucket', contentAddressed: true }, videos: { name: 'videos-bucket', keyTemplate: '{sha256}{ext}' } }
+    });
+
+    await expect(r2.createDirectUpload(request)).rejects.toThrow("Bucket 'uploads' keys objects by content hash");
+    await expect(r2.createDirectUpload({ ...request, path: 'bucket:videos:x', sha256: 'a'.repeat(64) })).rejects.toThrow(
+      'upload through the server'
+    );
+    expect(s3.calls).toHaveLength(0);
+  });
+
+  it('completes and aborts multipart uploads with the signed upload id', async () => {
+    const object = {};
+    s3 = storage(object);
+    const r2 = init();
+    const direct = await r2.createDirectUpload({ ...request, size: 12 * 1024 * 1024, path: 'bucket:videos:x' }, { partSize: 5 * 1024 * 1024 });
+
+    const create = s3.calls.find((call) => call.name === 'CreateMultipartUploadCommand');
+    expect(create.input.Metadata).toEqual({ 'direct-upload': decode(direct.token).nonce });
+    expect(direct.parts).toHaveLength(3);
+    expect(decode(direct.token).uploadId).toBe('upload-1');
+
+    // The object only exists once the upload is completed
+    object.completed = { size: 12 * 1024 * 1024, type: 'text/plain', nonce: decode(direct.token).nonce };
+    await r2.finalizeDirectUpload({
+      token: direct.token,
+      parts: [3, 1, 2].map((partNumber) => ({ partNumber, etag: `"p${partNumber}"` }))
+    });
+    const complete = s3.calls.find((call) => call.name === 'CompleteMultipartUploadCommand');
+    expect(complete.input).toMatchObject({ Bucket: 'videos-bucket', Key: direct.key, UploadId: 'upload-1' });
+    expect(complete.input.MultipartUpload.Parts.map((part) => part.PartNumber)).toEqual([1, 2, 3]);
+
+    // A retry does not complete the upload again
+    await r2.finalizeDirectUpload({ token: direct.token });
+    expect(s3.calls.filter((call) => call.name === 'CompleteMultipartUploadCommand')).toHaveLength(1);
+
+    await r2.abortDirectUpload({ token: direct.token });
+    const abort = s3.calls.find((call) => call.name === 'AbortMultipartUploadCommand');
+    expect(abort.input).toEqual({ Bucket: 'videos-bucket', Key: direct.key, UploadId: 'upload-1' });
+  });
+});
@@ -0,0 +1,77 @@
+const { createHash } = require('node:crypto');
+const { provider, createFile, mockS3, S3_OPTIONS } = require('./helpers');
+
+const OLD_KEY = Buffer.alloc(32, 1).toString('base64');
+const NEW_KEY = Buffer.alloc(32, 2).toString('base64');
+const md5 = (key) => createHash('md5').update(Buffer.from(key, 'base64')).digest('base64');
+
+describe('SSE-C encryption', () => {
+  let s3;
+  beforeEach(() => {
+    s3 = mockS3((command) => (command.constructor.name === 'HeadObjectCommand' ? { ContentLength: 11 } : {}));
+  });
+  afterEach(() => s3.restore());
+
+  const init = (activeKeyId = 'old', options = {}) =>
+    provider.init({
+      ...S3_OPTIONS,
+      buckets: {
+        legal: { name: 'legal-bucket', encryption: { keys: { old: OLD_KEY, new: NEW_KEY }, activeKeyId } },
+        plain: 'plain-bucket'
+      },
+      ...options
+    });
+
+  it('encrypts uploads with the active key and records its id', async () => {
+    const file = createFile({ path: 'bucket:legal:contracts' });
+    await init().upload(file);
+
+    const put = s3.calls.find((call) => call.name === 'PutObjectCommand');
+    expect(put.input).toMatchObject({ SSECustomerAlgorithm: 'AES256', SSECustomerKey: OLD_KEY });
+    expect(file.provider_metadata.sseKeyId).toBe('old');
+    expect(init().getEncryptionHeaders(file)).toEqual({
+      'x-amz-server-side-encryption-customer-algorithm': 'AES256',
+      'x-amz-server-side-encryption-customer-key': OLD_KEY,
+      'x-amz-server-side-encryption-customer-key-md5': md5(OLD_KEY)
+    });
+  });
+
+  it('leaves unencrypted buckets alone', async () => {
+    const file = createFile({ path: 'bucket:plain:x' });
+    await init().upload(file);
+
+    expect(s3.calls.find((call) => call.name === 'PutObjectCommand').input.SSECustomerKey).toBeUndefined();
+    expect(file.provider_metadata.sseKeyId).toBeUndefined();
+    expect(init().getEncryptionHeaders(file)).toEqual({});
+  });
+
+  it('rotates objects onto the active key in place', async () => {
+    const file = createFile();
+    file.provider_metadata = { bucket: 'legal', key: 'contracts/a.txt', sseKeyId: 'old' };
+
+    await init('new').rotateEncryptionKey(file);
+
+    const copy = s3.calls.find((call) => call.name === 'CopyObjectCommand');
+    expect(copy.input).toMatchObject({
+      Bucket: 'legal-bucket',
+      Key: 'contracts/a.txt',
+      CopySourceSSECustomerKey: OLD_KEY,
+      SSECustomerKey: NEW_KEY
+    });
+    expect(file.provider_metadata.sseKeyId).toBe('new');
+  });
+
+  it('refuses direct uploads and public domains for encrypted buckets', async () => {
+    await expect(init().createDirectUpload({ name: 'a.txt', mime: 'text/plain', size: 3, path: 'bucket:legal:x' })).rejects.toThrow(
+      'uses SSE-C'
+    );
+    expect(() => init('old', { publicDomains: { legal: 'https://cdn.example.com' } })).toThrow(/legal/);
+  });
+
+  it('rejects unknown active keys and keys of the wrong size', () => {
+    expect(() => init('missing')).toThrow(/activeKeyId/);
+    expect(() =>
+      provider.init({ ...S3_OPTIONS, buckets: { legal: { name: 'l', encryption: { keys: { a: 'c2hvcnQ=' }, activeKeyId: 'a' } } } })
+    ).toThrow(/32 bytes/);
+  });
+});
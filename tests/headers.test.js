@@ -0,0 +1,70 @@
+const { provider, createFile, mockS3, S3_OPTIONS } = require('./helpers');
+
+describe('object headers and metadata', () => {
+  let s3;
+  beforeEach(() => {
+    s3 = mockS3();
+  });
+  afterEach(() => s3.restore());
+
+  const init = () =>
+    provider.init({
+      ...S3_OPTIONS,
+      headers: {
+        cacheControl: 'public, max-age=3600',
+        byMime: { 'image/*': { cacheControl: 'public, max-age=31536000, immutable' } }
+      },
+      metadataFields: { alt: 'alternativeText', caption: 'caption' },
+      buckets: {
+        uploads: 'uploads-bucket',
+        invoices: {
+          name: 'invoices-bucket',
+          headers: { contentLanguage: 'de', byMime: { 'application/pdf': { contentDisposition: 'attachment' } } },
+          metadataFields: { hash: 'hash' }
+        }
+      },
+      publicDomains: { uploads: 'https://cdn.example.com' }
+    });
+
+  const putInput = () => s3.calls.find((call) => call.name === 'PutObjectCommand').input;
+
+  it('applies root headers with matching byMime overrides', async () => {
+    await init().upload(createFile({ name: 'a.png', mime: 'image/png', alternativeText: 'Grüße', caption: '' }));
+
+    expect(putInput()).toMatchObject({
+      ContentType: 'image/png',
+      CacheControl: 'public, max-age=31536000, immutable',
+      Metadata: { alt: 'Gr%C3%BC%C3%9Fe' }
+    });
+    expect(putInput().Metadata).not.toHaveProperty('caption');
+  });
+
+  it('layers bucket headers over the root and names attachments after the file', async () => {
+    const file = createFile({ name: 'Rechnung 1.pdf', mime: 'application/pdf', path: 'bucket:invoices:2024' });
+    await init().upload(file);
+
+    expect(putInput()).toMatchObject({
+      CacheControl: 'public, max-age=3600',
+      ContentLanguage: 'de',
+      ContentDisposition: `attachment; filename="Rechnung 1.pdf"; filename*=UTF-8''Rechnung%201.pdf`,
+      Metadata: { hash: file.hash }
+    });
+  });
+
+  it('lets customParams win', async () => {
+    await init().upload(createFile({ alternativeText: 'x' }), { CacheControl: 'no-store', Metadata: { alt: 'y' } });
+
+    expect(putInput()).toMatchObject({ CacheControl: 'no-store', Metadata: { alt: 'y' } });
+  });
+
+  it('returns the headers a direct upload has to send', async () => {
+    const direct = await init().createDirectUpload({ name: 'a.pdf', mime: 'application/pdf', size: 10, path: 'bucket:invoices:x' });
+
+    expect(direct.headers).toEqual({
+      'Content-Type': 'application/pdf',
+      'Cache-Control': 'public, max-age=3600',
+      'Content-Disposition': `attachment; filename="a.pdf"; filename*=UTF-8''a.pdf`,
+      'Content-Language': 'de'
+    });
+  });
+});
@@ -0,0 +1,91 @@
+const { mkdtempSync, rmSync } = require('node:fs');
+const { tmpdir } = require('node:os');
+const { join } = require('node:path');
+const { S3Client } = require('@aws-sdk/client-s3');
+const provider = require('../dist');
+
+const LOCAL_BASE_URL = 'http://localhost:1337/r2-local';
+const LOCAL_SECRET = 'test-secret';
+
+/**
+ * A provider on the local driver, storing into a fresh temp directory.
+ * `public` is served from a public domain, `private` is signed.
+ */
+const createLocalProvider = (options = {}) => {
+  const root = mkdtempSync(join(tmpdir(), 'r2-provider-test-'));
+  const instance = provider.init({
+    driver: 'local',
+    local: { root, baseUrl: LOCAL_BASE_URL, secret: LOCAL_SECRET },
+    buckets: { public: 'public-bucket', private: 'private-bucket' },
+    publicDomains: { public: `${LOCAL_BASE_URL}/public` },
+    ...options
+  });
+
+  return {
+    provider: instance,
+    root,
+    path: (bucketName, key) => join(root, bucketName, ...key.split('/')),
+    cleanup: () => rmSync(root, { recursive: true, force: true })
+  };
+};
+
+let counter = 0;
+
+/**
+ * A Strapi file with a buffer, named like Strapi names uploads ("<slug>_<random>").
+ */
+const createFile = (overrides = {}) => {
+  const { content = 'hello world', ...rest } = overrides;
+  const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+  const name = rest.name || 'file.txt';
+  const ext = rest.ext || name.slice(name.lastIndexOf('.'));
+  counter += 1;
+
+  return {
+    name,
+    hash: `${name.slice(0, name.lastIndexOf('.')).replace(/\W+/g, '_')}_${counter.toString(16).padStart(6, '0')}`,
+    ext,
+    mime: 'text/plain',
+    size: buffer.length / 1000,
+    buffer,
+    ...rest
+  };
+};
+
+// Smallest valid PNG (1x1, transparent)
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+/**
+ * Replace S3Client#send. `respond(command, client)` returns the output (or throws);
+ * every call is recorded as { name, input, client }.
+ */
+const mockS3 = (respond = () => ({})) => {
+  const calls = [];
+  const spy = jest.spyOn(S3Client.prototype, 'send').mockImplementation(async function (command) {
+    calls.push({ name: command.constructor.name, input: command.input, client: this });
+    return respond(command, this);
+  });
+  return { calls, restore: () => spy.mockRestore() };
+};
+
+const notFound = () => Object.assign(new Error('NotFound'), { name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+
+const S3_OPTIONS = {
+  endpoint: 'https://account.r2.cloudflarestorage.com',
+  credentials: { accessKeyId: 'root-key', secretAccessKey: 'root-secret' }
+};
+
+module.exports = {
+  provider,
+  createLocalProvider,
+  createFile,
+  mockS3,
+  notFound,
+  PNG,
+  S3_OPTIONS,
+  LOCAL_BASE_URL,
+  LOCAL_SECRET
+};
@@ -0,0 +1,81 @@
+const { existsSync } = require('node:fs');
+const { createLocalProvider, createFile } = require('./helpers');
+
+describe('hooks, logging and metrics', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  const init = (options) => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const metrics = { increment: jest.fn(), observe: jest.fn() };
+    ctx = createLocalProvider({ logger, metrics, ...options });
+    return { logger, metrics };
+  };
+
+  it('runs upload, move and delete hooks per object and records metrics', async () => {
+    const hooks = {
+      beforeUpload: jest.fn(),
+      afterUpload: jest.fn(),
+      beforeDelete: jest.fn(),
+      afterDelete: jest.fn(),
+      afterMove: jest.fn()
+    };
+    const { metrics } = init({ hooks });
+    const file = createFile({ path: 'bucket:public:a' });
+
+    await ctx.provider.upload(file);
+    const uploadedKey = file.provider_metadata.key;
+    await ctx.provider.move(file, { toPath: 'bucket:private:b' });
+    await ctx.provider.delete(file);
+
+    expect(hooks.beforeUpload).toHaveBeenCalledWith(expect.objectContaining({ bucket: 'public', key: uploadedKey, file, bytes: 11 }));
+    expect(hooks.afterUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ bucket: 'public', key: uploadedKey, bytes: 11, outcome: 'success', durationMs: expect.any(Number) })
+    );
+    expect(hooks.afterMove).toHaveBeenCalledWith(
+      expect.objectContaining({ bucket: 'private', key: file.provider_metadata.key, from: { bucket: 'public', key: uploadedKey } })
+    );
+    expect(hooks.beforeDelete).toHaveBeenCalledWith(expect.objectContaining({ bucket: 'private', key: file.provider_metadata.key }));
+    expect(hooks.afterDelete).toHaveBeenCalledTimes(1);
+
+    expect(metrics.increment).toHaveBeenCalledWith('r2_operations_total', 1, { operation: 'upload', bucket: 'public', outcome: 'success' });
+    expect(metrics.observe).toHaveBeenCalledWith('r2_upload_bytes', 11, expect.objectContaining({ operation: 'upload' }));
+    expect(metrics.observe).toHaveBeenCalledWith('r2_operation_duration_ms', expect.any(Number), expect.objectContaining({ operation: 'delete' }));
+  });
+
+  it('cancels the object when a before hook throws', async () => {
+    const afterUpload = jest.fn();
+    init({ hooks: { beforeUpload: () => { throw new Error('virus found'); }, afterUpload } });
+    const file = createFile({ path: 'bucket:public:a' });
+
+    await expect(ctx.provider.upload(file)).rejects.toThrow('virus found');
+
+    expect(existsSync(ctx.path('public-bucket', `a/${file.hash}.txt`))).toBe(false);
+    expect(afterUpload).not.toHaveBeenCalled();
+  });
+
+  it('reports failed operations to onError and the error log', async () => {
+    const onError = jest.fn();
+    const { logger } = init({ hooks: { onError } });
+    const file = createFile();
+    file.provider_metadata = { bucket: 'public', key: 'a/missing.txt' };
+
+    await expect(ctx.provider.move(file, { toPath: 'bucket:private:b' })).rejects.toThrow();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ operation: 'move', outcome: 'error', error: expect.any(Error) }));
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("move of 'b/missing.txt' in bucket 'private' failed"));
+  });
+
+  it('logs and ignores errors from after hooks and metrics', async () => {
+    const { logger } = init({
+      hooks: { afterUpload: () => { throw new Error('hook broke'); } },
+      metrics: { increment: () => { throw new Error('metrics broke'); }, observe: () => {} }
+    });
+
+    await ctx.provider.upload(createFile({ path: 'bucket:public:a' }));
+
+    const logged = logger.warn.mock.calls.map(([message]) => message).join('\n');
+    expect(logged).toContain('hook broke');
+    expect(logged).toContain('metrics broke');
+  });
+});
@@ -0,0 +1,123 @@
+const { existsSync } = require('node:fs');
+const { createLocalProvider, createFile, PNG } = require('./helpers');
+
+const BASE = 'http://localhost:1337/r2-local';
+
+describe('Cloudflare Image Resizing', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  const init = (options = {}) => {
+    ctx = createLocalProvider({
+      buckets: {
+        public: { name: 'public-bucket', imageResizing: { defaults: { format: 'auto' }, synthesizeFormats: true } },
+        private: 'private-bucket'
+      },
+      ...options
+    });
+    return ctx.provider;
+  };
+
+  const image = (overrides = {}) => createFile({ name: 'cat.png', mime: 'image/png', content: PNG, path: 'bucket:public:x', ...overrides });
+
+  // Strapi starts the original's upload, then uploads the generated formats in parallel
+  const uploadWithFormats = async (original, names = ['thumbnail', 'small']) => {
+    const formats = names.map((name) =>
+      image({ name: `${name}_${original.name}`, hash: `${name}_${original.hash}`, width: 150, height: 100, path: original.path })
+    );
+    await Promise.all([ctx.provider.upload(original), ...formats.map((format) => ctx.provider.upload(format))]);
+    return formats;
+  };
+
+  describe('getTransformedUrl', () => {
+    const file = { provider_metadata: { bucket: 'public', key: 'x/cat.png' } };
+
+    it('builds transform urls over the bucket defaults', () => {
+      expect(init().getTransformedUrl(file, { width: 800, fit: 'cover', quality: 80 })).toBe(
+        `${BASE}/public/cdn-cgi/image/format=auto,width=800,fit=cover,quality=80/x/cat.png`
+      );
+    });
+
+    it.each([
+      [{ 'width=1,onerror': 1 }, "unknown option 'width=1,onerror'"],
+      [{ width: '100/../../x' }, "invalid value for 'width'"],
+      [{ quality: 101 }, "invalid value for 'quality'"],
+      [{ fit: 'cover/../x' }, "invalid value for 'fit'"],
+      [{ format: 'gif' }, "invalid value for 'format'"]
+    ])('rejects %j', (options, message) => {
+      expect(() => init().getTransformedUrl(file, options)).toThrow(
+        expect.objectContaining({ name: 'ValidationError', status: 400, message: expect.stringContaining(message) })
+      );
+    });
+
+    it('validates bucket defaults at init', () => {
+      expect(() =>
+        init({ buckets: { public: { name: 'public-bucket', imageResizing: { defaults: { format: 'bmp', crop: 1 } } } } })
+      ).toThrow(/imageResizing\.defaults: invalid value for 'format'[\s\S]*imageResizing\.defaults: unknown option 'crop'/);
+    });
+  });
+
+  describe('synthesized formats', () => {
+    it('points formats of an uploaded original at transform urls', async () => {
+      init();
+      const original = image();
+      const [thumbnail] = await uploadWithFormats(original);
+
+      expect(thumbnail.url).toBe(`${BASE}/public/cdn-cgi/image/format=auto,width=150,height=100,fit=scale-down/x/${original.hash}.png`);
+      expect(thumbnail.provider_metadata).toEqual({ bucket: 'public', key: `x/${original.hash}.png`, isPrivate: false, synthesized: true });
+      expect(existsSync(ctx.path('public-bucket', `x/${thumbnail.hash}.png`))).toBe(false);
+    });
+
+    it('stores originals named like a format', async () => {
+      init();
+      const original = image({ name: 'large_banner.png', hash: 'large_banner_abc123' });
+      await ctx.provider.upload(original);
+
+      expect(original.provider_metadata).toMatchObject({ key: 'x/large_banner_abc123.png' });
+      expect(original.provider_metadata.synthesized).toBeUndefined();
+      expect(existsSync(ctx.path('public-bucket', 'x/large_banner_abc123.png'))).toBe(true);
+      expect(original.url).toBe(`${BASE}/public/x/large_banner_abc123.png`);
+    });
+
+    it('stores formats whose original failed', async () => {
+      init({
+        buckets: {
+          public: {
+            name: 'public-bucket',
+            imageResizing: { synthesizeFormats: true },
+            policy: { allowedMimeTypes: ['image/png'], minSize: 70 }
+          }
+        }
+      });
+      const original = image();
+      const thumbnail = image({ hash: `thumbnail_${original.hash}`, content: Buffer.concat([PNG, Buffer.alloc(10)]) });
+
+      const results = await Promise.allSettled([ctx.provider.upload(original), ctx.provider.upload(thumbnail)]);
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'fulfilled']);
+      expect(thumbnail.provider_metadata.synthesized).toBeUndefined();
+      expect(existsSync(ctx.path('public-bucket', `x/${thumbnail.hash}.png`))).toBe(true);
+    });
+
+    it('uploads formats normally in buckets without synthesis', async () => {
+      init({ buckets: { public: 'public-bucket' } });
+      const original = image();
+      const [thumbnail] = await uploadWithFormats(original, ['thumbnail']);
+
+      expect(thumbnail.provider_metadata.synthesized).toBeUndefined();
+      expect(existsSync(ctx.path('public-bucket', `x/${thumbnail.hash}.png`))).toBe(true);
+    });
+
+    it('re-points synthesized formats after replace', async () => {
+      init({ versions: false });
+      const original = image();
+      await uploadWithFormats(original, ['thumbnail']).then(([thumbnail]) => (original.formats = { thumbnail }));
+
+      Object.assign(original, { hash: `${original.hash}_v2` });
+      await ctx.provider.replace(original);
+
+      expect(original.formats.thumbnail.provider_metadata.key).toBe(`x/${original.hash}.png`);
+      expect(original.formats.thumbnail.url).toContain(`,fit=scale-down/x/${original.hash}.png`);
+    });
+  });
+});
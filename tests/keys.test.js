@@ -0,0 +1,90 @@
+const { existsSync } = require('node:fs');
+const { createHash } = require('node:crypto');
+const { createLocalProvider, createFile } = require('./helpers');
+
+const BASE = 'http://localhost:1337/r2-local';
+
+describe('key templates and content-addressed storage', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  it('stores objects as folder/hash+ext by default', async () => {
+    ctx = createLocalProvider();
+    const file = createFile({ path: 'bucket:public:docs' });
+    await ctx.provider.upload(file);
+
+    expect(file.provider_metadata.key).toBe(`docs/${file.hash}.txt`);
+    expect(existsSync(ctx.path('public-bucket', `docs/${file.hash}.txt`))).toBe(true);
+    expect(file.url).toBe(`${BASE}/public/docs/${file.hash}.txt`);
+  });
+
+  it('renders root and bucket templates', async () => {
+    ctx = createLocalProvider({
+      keyTemplate: '{folder}/{name}-{hash}{ext}',
+      buckets: { public: 'public-bucket', dated: { name: 'dated-bucket', keyTemplate: '{yyyy}/{mm}/{dd}/{hash}{ext}' } },
+      publicDomains: { public: `${BASE}/public`, dated: `${BASE}/dated` }
+    });
+    const root = createFile({ name: 'My Report.txt', path: 'bucket:public:docs' });
+    const dated = createFile({ path: 'bucket:dated:ignored' });
+    await ctx.provider.upload(root);
+    await ctx.provider.upload(dated);
+
+    expect(root.provider_metadata.key).toBe(`docs/my-report-${root.hash}.txt`);
+    const now = new Date();
+    const date = [now.getUTCFullYear(), String(now.getUTCMonth() + 1).padStart(2, '0'), String(now.getUTCDate()).padStart(2, '0')];
+    expect(dated.provider_metadata.key).toBe(`${date.join('/')}/${dated.hash}.txt`);
+  });
+
+  it('prepends rootPath to the rendered key', async () => {
+    ctx = createLocalProvider({ rootPath: 'site', keyTemplate: '{sha256}{ext}' });
+    const file = createFile({ path: 'bucket:public:x' });
+    await ctx.provider.upload(file);
+
+    const sha = createHash('sha256').update('hello world').digest('hex');
+    expect(file.provider_metadata.key).toBe(`site/${sha}.txt`);
+  });
+
+  it('deduplicates content-addressed uploads and never deletes them', async () => {
+    ctx = createLocalProvider({
+      buckets: { assets: { name: 'assets-bucket', contentAddressed: true } },
+      publicDomains: { assets: `${BASE}/assets` }
+    });
+    const first = createFile({ content: 'same bytes' });
+    const second = createFile({ name: 'other.txt', content: 'same bytes' });
+    await ctx.provider.upload(first);
+    await ctx.provider.upload(second);
+
+    const sha = createHash('sha256').update('same bytes').digest('hex');
+    expect(first.provider_metadata).toMatchObject({ key: `${sha}.txt`, contentAddressed: true });
+    expect(second.url).toBe(first.url);
+
+    await ctx.provider.delete(first);
+    expect(existsSync(ctx.path('assets-bucket', `${sha}.txt`))).toBe(true);
+  });
+
+  it('keeps content hashes as keys under a root keyTemplate', async () => {
+    ctx = createLocalProvider({
+      keyTemplate: '{yyyy}/{hash}{ext}',
+      buckets: { assets: { name: 'assets-bucket', contentAddressed: true } },
+      publicDomains: { assets: `${BASE}/assets` }
+    });
+    const file = createFile({ content: 'keyed' });
+    await ctx.provider.upload(file);
+
+    expect(file.provider_metadata.key).toBe(`${createHash('sha256').update('keyed').digest('hex')}.txt`);
+  });
+
+  it('hashes streams for content-addressed keys', async () => {
+    ctx = createLocalProvider({
+      buckets: { assets: { name: 'assets-bucket', contentAddressed: true } },
+      publicDomains: { assets: `${BASE}/assets` }
+    });
+    const { Readable } = require('node:stream');
+    const file = createFile();
+    delete file.buffer;
+    file.stream = Readable.from([Buffer.from('hello '), Buffer.from('world')]);
+    await ctx.provider.uploadStream(file);
+
+    expect(file.provider_metadata.key).toBe(`${createHash('sha256').update('hello world').digest('hex')}.txt`);
+  });
+});
@@ -0,0 +1,88 @@
+const { existsSync, readFileSync } = require('node:fs');
+const { PassThrough } = require('node:stream');
+const { createLocalProvider, createFile, LOCAL_BASE_URL } = require('./helpers');
+
+/**
+ * Run a request through handleLocalRequest and collect the response.
+ */
+const request = async (provider, url, method = 'GET') => {
+  const res = new PassThrough();
+  const headers = {};
+  let statusCode = 200;
+  Object.defineProperty(res, 'statusCode', { get: () => statusCode, set: (value) => (statusCode = value) });
+  res.setHeader = (name, value) => (headers[name.toLowerCase()] = value);
+
+  const chunks = [];
+  res.on('data', (chunk) => chunks.push(chunk));
+  const ended = new Promise((resolve) => res.on('end', resolve));
+
+  const handled = await provider.handleLocalRequest({ method, url: url.replace('http://localhost:1337', '') }, res);
+  if (!handled) return { handled };
+  await ended;
+  return { handled, status: statusCode, headers, body: Buffer.concat(chunks).toString() };
+};
+
+describe('local storage driver', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  it('stores objects in bucket directories and serves public ones', async () => {
+    ctx = createLocalProvider();
+    const file = createFile({ path: 'bucket:public:a' });
+    await ctx.provider.upload(file);
+
+    expect(readFileSync(ctx.path('public-bucket', `a/${file.hash}.txt`), 'utf8')).toBe('hello world');
+    expect(existsSync(ctx.path('public-bucket', `.r2meta/objects/a/${file.hash}.txt.json`))).toBe(true);
+
+    expect(await request(ctx.provider, file.url)).toMatchObject({
+      status: 200,
+      body: 'hello world',
+      headers: { 'content-type': 'text/plain', 'content-length': '11', 'x-content-type-options': 'nosniff' }
+    });
+    expect(await request(ctx.provider, `${LOCAL_BASE_URL}/public/a/missing.txt`)).toMatchObject({ status: 404 });
+    expect(await request(ctx.provider, 'http://localhost:1337/api/other')).toEqual({ handled: false });
+  });
+
+  it('serves private objects only with a valid token', async () => {
+    ctx = createLocalProvider();
+    const file = createFile({ path: 'bucket:private:a' });
+    await ctx.provider.upload(file);
+    const { url } = await ctx.provider.getSignedUrl(file);
+
+    expect(await request(ctx.provider, url)).toMatchObject({ status: 200, body: 'hello world' });
+    expect(await request(ctx.provider, url.replace(/token=[^&]+/, 'token=forged'))).toMatchObject({ status: 403 });
+    expect(await request(ctx.provider, url.split('?')[0])).toMatchObject({ status: 403 });
+  });
+
+  it('signs the response overrides', async () => {
+    ctx = createLocalProvider();
+    const file = createFile({ path: 'bucket:private:a' });
+    await ctx.provider.upload(file);
+    const { url } = await ctx.provider.getSignedUrl(file, { download: true, cache: false });
+
+    expect(await request(ctx.provider, url)).toMatchObject({
+      status: 200,
+      headers: { 'content-disposition': expect.stringMatching(/^attachment; filename="file.txt"/) }
+    });
+
+    const added = new URL(url);
+    added.searchParams.set('response-content-type', 'text/html');
+    expect(await request(ctx.provider, added.toString())).toMatchObject({ status: 403 });
+
+    const changed = new URL(url);
+    changed.searchParams.set('response-content-disposition', 'inline');
+    expect(await request(ctx.provider, changed.toString())).toMatchObject({ status: 403 });
+
+    const plain = (await ctx.provider.getSignedUrl(file, { cache: false })).url;
+    const injected = new URL(plain);
+    injected.searchParams.set('response-content-type', 'text/html');
+    expect(await request(ctx.provider, injected.toString())).toMatchObject({ status: 403 });
+  });
+
+  it('refuses direct uploads', async () => {
+    ctx = createLocalProvider();
+    await expect(ctx.provider.createDirectUpload({ name: 'a.txt', mime: 'text/plain', size: 3 })).rejects.toThrow(
+      "Not supported by the 'local' storage driver"
+    );
+  });
+});
@@ -0,0 +1,69 @@
+const { existsSync } = require('node:fs');
+const { createLocalProvider, createFile } = require('./helpers');
+
+describe('migrateFile', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  // A file uploaded by "another provider": an object and a url, no provider_metadata
+  const legacyFile = async (key) => {
+    const file = createFile({ path: `bucket:public:${key.slice(0, key.lastIndexOf('/'))}` });
+    await ctx.provider.upload(file);
+    const stored = file.provider_metadata.key;
+    delete file.provider_metadata;
+    delete file.path;
+    file.url = `https://old-cdn.example.com/${stored}`;
+    return { file, stored };
+  };
+
+  it('backfills bucket and key from legacy urls', async () => {
+    ctx = createLocalProvider();
+    const { file, stored } = await legacyFile('legacy/a.txt');
+    const thumbnail = { ...createFile(), url: `http://localhost:1337/r2-local/public/${stored}?v=1` };
+    file.formats = { thumbnail };
+
+    const result = await ctx.provider.migrateFile(file, { legacyDomains: { 'https://old-cdn.example.com': 'public' } });
+
+    expect(result.success).toBe(true);
+    expect(file.provider_metadata).toMatchObject({ bucket: 'public', key: stored });
+    expect(thumbnail.provider_metadata).toMatchObject({ bucket: 'public', key: stored });
+    expect(result.variants.map((v) => v.label)).toEqual(['original', 'format:thumbnail']);
+  });
+
+  it('fails variants whose url matches nothing or whose object is gone', async () => {
+    ctx = createLocalProvider();
+    const unknown = { ...createFile(), url: 'https://elsewhere.example.com/a.txt' };
+    const gone = { ...createFile(), url: 'http://localhost:1337/r2-local/public/legacy/missing.txt' };
+
+    const [first, second] = await ctx.provider.migrateMany([unknown, gone]);
+
+    expect(first).toMatchObject({ success: false, variants: [{ label: 'original', error: expect.any(String) }] });
+    expect(second).toMatchObject({ success: false, variants: [{ label: 'original', error: expect.any(String) }] });
+    expect(unknown.provider_metadata).toBeUndefined();
+  });
+
+  it('skips migrated variants unless forced', async () => {
+    ctx = createLocalProvider();
+    const file = createFile({ path: 'bucket:public:a' });
+    await ctx.provider.upload(file);
+
+    const result = await ctx.provider.migrateFile(file);
+    expect(result.variants).toEqual([expect.objectContaining({ label: 'original', skipped: true })]);
+  });
+
+  it('relocates objects to where upload() would put them', async () => {
+    ctx = createLocalProvider({ rootPath: 'site' });
+    const { file, stored } = await legacyFile('legacy/a.txt');
+
+    const result = await ctx.provider.migrateFile(file, {
+      legacyDomains: { 'https://old-cdn.example.com': 'public' },
+      relocate: true,
+      deleteSource: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(file.provider_metadata).toMatchObject({ bucket: 'public', key: `site/${file.hash}.txt` });
+    expect(existsSync(ctx.path('public-bucket', `site/${file.hash}.txt`))).toBe(true);
+    expect(existsSync(ctx.path('public-bucket', stored))).toBe(false);
+  });
+});
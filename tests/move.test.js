@@ -0,0 +1,132 @@
+const { existsSync } = require('node:fs');
+const { createLocalProvider, createFile, mockS3, notFound, provider, S3_OPTIONS } = require('./helpers');
+
+const BASE = 'http://localhost:1337/r2-local';
+
+describe('move', () => {
+  describe('on the local driver', () => {
+    let ctx;
+    afterEach(() => ctx.cleanup());
+
+    // An original with a thumbnail, both uploaded to public/docs
+    const uploadWithFormat = async () => {
+      const file = createFile({ path: 'bucket:public:docs' });
+      const thumbnail = createFile({ hash: `thumbnail_${file.hash}`, name: `thumbnail_${file.name}`, path: 'bucket:public:docs' });
+      await ctx.provider.upload(file);
+      await ctx.provider.upload(thumbnail);
+      file.formats = { thumbnail };
+      return file;
+    };
+
+    it('moves the original and its formats and recomputes the urls', async () => {
+      ctx = createLocalProvider();
+      const file = await uploadWithFormat();
+      const sources = [file.provider_metadata.key, file.formats.thumbnail.provider_metadata.key];
+
+      await ctx.provider.move(file, { toPath: 'bucket:private:archive' });
+
+      expect(file.provider_metadata).toMatchObject({ bucket: 'private', key: `archive/${file.hash}.txt`, isPrivate: true });
+      expect(file.formats.thumbnail.provider_metadata).toMatchObject({ bucket: 'private', key: `archive/thumbnail_${file.hash}.txt` });
+      expect(file.url).toMatch(new RegExp(`^${BASE}/private/archive/${file.hash}\\.txt\\?exp=\\d+&token=`));
+      expect(existsSync(ctx.path('private-bucket', `archive/thumbnail_${file.hash}.txt`))).toBe(true);
+      for (const key of sources) expect(existsSync(ctx.path('public-bucket', key))).toBe(false);
+    });
+
+    it('refuses to overwrite an existing target before copying anything', async () => {
+      ctx = createLocalProvider();
+      const file = await uploadWithFormat();
+      const blocker = createFile({ hash: file.hash, path: 'bucket:private:archive' });
+      await ctx.provider.upload(blocker);
+
+      await expect(ctx.provider.move(file, { toPath: 'bucket:private:archive', overwrite: false })).rejects.toThrow(/exists/);
+
+      expect(file.provider_metadata.bucket).toBe('public');
+      expect(existsSync(ctx.path('public-bucket', file.provider_metadata.key))).toBe(true);
+      expect(existsSync(ctx.path('private-bucket', `archive/thumbnail_${file.hash}.txt`))).toBe(false);
+    });
+  });
+
+  describe('content-addressed sources', () => {
+    let ctx;
+    afterEach(() => ctx.cleanup());
+
+    it('does not mark the moved copy as shared', async () => {
+      ctx = createLocalProvider({
+        buckets: { assets: { name: 'assets-bucket', contentAddressed: true }, public: 'public-bucket' },
+        publicDomains: { assets: `${BASE}/assets`, public: `${BASE}/public` }
+      });
+      const file = createFile({ content: 'shared bytes', path: 'bucket:assets:img' });
+      await ctx.provider.upload(file);
+      const shared = file.provider_metadata.key;
+
+      await ctx.provider.move(file, { toPath: 'bucket:public:x' });
+
+      expect(file.provider_metadata).toEqual(expect.not.objectContaining({ contentAddressed: true }));
+      expect(file.provider_metadata).not.toHaveProperty('sha256');
+      expect(existsSync(ctx.path('assets-bucket', shared))).toBe(true);
+
+      await ctx.provider.delete(file);
+      expect(existsSync(ctx.path('public-bucket', file.provider_metadata.key))).toBe(false);
+    });
+  });
+
+  describe('rollback', () => {
+    let s3;
+    afterEach(() => s3.restore());
+
+    it('removes the copies already made when one copy fails and keeps the sources', async () => {
+      s3 = mockS3((command) => {
+        const name = command.constructor.name;
+        if (name === 'HeadObjectCommand') {
+          if (command.input.Bucket === 'archive-bucket') throw notFound();
+          return { ContentLength: 11 };
+        }
+        if (name === 'CopyObjectCommand' && command.input.Key.includes('thumbnail_')) throw new Error('copy failed');
+        return {};
+      });
+      const r2 = provider.init({
+        ...S3_OPTIONS,
+        buckets: { uploads: 'uploads-bucket', archive: 'archive-bucket' },
+        publicDomains: { uploads: 'https://cdn.example.com', archive: 'https://archive.example.com' },
+        concurrency: 1
+      });
+      const file = createFile();
+      file.provider_metadata = { bucket: 'uploads', key: 'docs/a.txt' };
+      file.formats = { thumbnail: { ...createFile(), provider_metadata: { bucket: 'uploads', key: 'docs/thumbnail_a.txt' } } };
+
+      await expect(r2.move(file, { toPath: 'bucket:archive:2024' })).rejects.toThrow('copy failed');
+
+      const deletes = s3.calls.filter((call) => call.name === 'DeleteObjectCommand' || call.name === 'DeleteObjectsCommand');
+      const deleted = deletes.flatMap((call) => (call.input.Delete ? call.input.Delete.Objects.map((o) => o.Key) : [call.input.Key]));
+      expect(deleted).toEqual(['2024/a.txt']);
+      expect(deletes.every((call) => call.input.Bucket === 'archive-bucket')).toBe(true);
+      expect(file.provider_metadata).toEqual({ bucket: 'uploads', key: 'docs/a.txt' });
+    });
+
+    it('never deletes targets that existed before an overwrite', async () => {
+      s3 = mockS3((command) => {
+        const name = command.constructor.name;
+        if (name === 'HeadObjectCommand') {
+          if (command.input.Bucket === 'archive-bucket' && command.input.Key !== '2024/a.txt') throw notFound();
+          return { ContentLength: 11 };
+        }
+        if (name === 'CopyObjectCommand' && command.input.Key.includes('thumbnail_')) throw new Error('copy failed');
+        return {};
+      });
+      const r2 = provider.init({
+        ...S3_OPTIONS,
+        buckets: { uploads: 'uploads-bucket', archive: 'archive-bucket' },
+        publicDomains: { uploads: 'https://cdn.example.com', archive: 'https://archive.example.com' },
+        concurrency: 1
+      });
+      const file = createFile();
+      file.provider_metadata = { bucket: 'uploads', key: 'docs/a.txt' };
+      file.formats = { thumbnail: { ...createFile(), provider_metadata: { bucket: 'uploads', key: 'docs/thumbnail_a.txt' } } };
+
+      await expect(r2.move(file, { toPath: 'bucket:archive:2024', overwrite: true })).rejects.toThrow(
+        '0 partial copies rolled back (overwritten, kept: 2024/a.txt)'
+      );
+      expect(s3.calls.map((call) => call.name)).not.toContain('DeleteObjectCommand');
+    });
+  });
+});
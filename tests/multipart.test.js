@@ -0,0 +1,63 @@
+const { provider, createFile, mockS3, S3_OPTIONS } = require('./helpers');
+
+const PART_SIZE = 5 * 1024 * 1024;
+
+describe('multipart uploads', () => {
+  let s3;
+  afterEach(() => s3.restore());
+
+  const init = (multipart = {}) =>
+    provider.init({
+      ...S3_OPTIONS,
+      buckets: { videos: 'videos-bucket' },
+      publicDomains: { videos: 'https://cdn.example.com' },
+      multipart: { partSize: PART_SIZE, queueSize: 1, ...multipart }
+    });
+
+  const largeFile = () => createFile({ name: 'clip.txt', content: Buffer.alloc(PART_SIZE * 2 + 10, 'a') });
+
+  const storage = (failPart) =>
+    mockS3((command) => {
+      switch (command.constructor.name) {
+        case 'CreateMultipartUploadCommand':
+          return { UploadId: 'own-upload' };
+        case 'UploadPartCommand':
+          if (command.input.PartNumber === failPart) throw new Error('connection reset');
+          return { ETag: `"p${command.input.PartNumber}"` };
+        default:
+          return {};
+      }
+    });
+
+  it('uploads in parts and reports progress', async () => {
+    s3 = storage();
+    const onProgress = jest.fn();
+    const file = largeFile();
+    await init().upload(file, {}, { onProgress });
+
+    expect(s3.calls.filter((call) => call.name === 'UploadPartCommand')).toHaveLength(3);
+    expect(s3.calls.find((call) => call.name === 'CompleteMultipartUploadCommand').input.UploadId).toBe('own-upload');
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ loaded: file.buffer.length }));
+  });
+
+  it('aborts only its own multipart upload when a part fails', async () => {
+    s3 = storage(2);
+    const file = largeFile();
+
+    await expect(init().upload(file)).rejects.toMatchObject({
+      message: expect.stringContaining("to bucket 'videos' failed: connection reset"),
+      cause: expect.objectContaining({ message: 'connection reset' })
+    });
+
+    const aborts = s3.calls.filter((call) => call.name === 'AbortMultipartUploadCommand');
+    expect(aborts.map((call) => call.input.UploadId)).toEqual(['own-upload']);
+    expect(s3.calls.map((call) => call.name)).not.toContain('ListMultipartUploadsCommand');
+  });
+
+  it('keeps the parts with leavePartsOnError', async () => {
+    s3 = storage(2);
+    await expect(init({ leavePartsOnError: true }).upload(largeFile())).rejects.toThrow();
+
+    expect(s3.calls.map((call) => call.name)).not.toContain('AbortMultipartUploadCommand');
+  });
+});
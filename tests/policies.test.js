@@ -0,0 +1,95 @@
+const { createLocalProvider, createFile, PNG } = require('./helpers');
+
+const policyBucket = (policy) => ({
+  buckets: { docs: { name: 'docs-bucket', policy } },
+  publicDomains: { docs: 'http://localhost:1337/r2-local/docs' }
+});
+
+describe('upload policies and content sniffing', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  const rejection = (reason) => expect.objectContaining({ name: 'ValidationError', status: 400, message: expect.stringContaining(reason) });
+
+  it('rejects declared types and extensions outside the policy', async () => {
+    ctx = createLocalProvider(policyBucket({ allowedMimeTypes: ['image/*'], allowedExtensions: ['.png'] }));
+
+    await expect(ctx.provider.upload(createFile({ name: 'a.txt' }))).rejects.toEqual(rejection("type 'text/plain'"));
+    await expect(
+      ctx.provider.upload(createFile({ name: 'a.jpg', mime: 'image/jpeg', content: Buffer.from([0xff, 0xd8, 0xff, 0xe0]) }))
+    ).rejects.toEqual(rejection("extension '.jpg'"));
+  });
+
+  it('accepts content that matches its declared type', async () => {
+    ctx = createLocalProvider(policyBucket({ allowedMimeTypes: ['image/png'] }));
+    const file = createFile({ name: 'a.png', mime: 'image/png', content: PNG });
+
+    await ctx.provider.upload(file);
+    expect(file.url).toMatch(/\/docs\/a_[0-9a-f]+\.png$/);
+  });
+
+  it('rejects executables whatever the declared type', async () => {
+    ctx = createLocalProvider(policyBucket({}));
+    const file = createFile({ name: 'a.txt', content: Buffer.from('MZ\x90\x00\x03') });
+
+    await expect(ctx.provider.upload(file)).rejects.toEqual(rejection('executable (exe)'));
+  });
+
+  it('rejects a known binary type under another declared type', async () => {
+    ctx = createLocalProvider(policyBucket({}));
+    const file = createFile({ name: 'a.pdf', mime: 'application/pdf', content: PNG });
+
+    await expect(ctx.provider.upload(file)).rejects.toEqual(rejection("declared type 'application/pdf'"));
+  });
+
+  it.each([
+    ['a.png', 'image/png'],
+    ['a.pdf', 'application/pdf']
+  ])('requires the signature of a declared %s', async (name, mime) => {
+    ctx = createLocalProvider(policyBucket({ allowHtml: true }));
+    const file = createFile({ name, mime, content: '<div onmouseover="alert(1)">hi</div>' });
+
+    await expect(ctx.provider.upload(file)).rejects.toEqual(rejection(`declared type '${mime}'`));
+  });
+
+  it('rejects SVG and HTML content unless allowed', async () => {
+    ctx = createLocalProvider(policyBucket({}));
+
+    await expect(ctx.provider.upload(createFile({ name: 'a.txt', content: '<svg xmlns="http://www.w3.org/2000/svg"></svg>' })))
+      .rejects.toEqual(rejection('content is SVG'));
+    await expect(ctx.provider.upload(createFile({ name: 'b.txt', content: '<!doctype html><html></html>' })))
+      .rejects.toEqual(rejection('content is HTML'));
+  });
+
+  it('leaves types without a signature alone and can be turned off', async () => {
+    ctx = createLocalProvider(policyBucket({ sniffContent: false }));
+    await ctx.provider.upload(createFile({ name: 'a.png', mime: 'image/png', content: 'not a png' }));
+
+    const plain = createLocalProvider(policyBucket({}));
+    try {
+      await plain.provider.upload(createFile({ name: 'notes.txt', content: 'just text' }));
+    } finally {
+      plain.cleanup();
+    }
+  });
+
+  it('enforces maxSize and minSize in bytes', async () => {
+    ctx = createLocalProvider(policyBucket({ maxSize: 5, minSize: 2 }));
+
+    await expect(ctx.provider.upload(createFile({ content: 'too long' }))).rejects.toEqual(
+      expect.objectContaining({ name: 'PayloadTooLargeError', status: 413 })
+    );
+    await expect(ctx.provider.upload(createFile({ content: 'x' }))).rejects.toEqual(rejection('smaller than'));
+  });
+
+  it('checks streams and uploads them intact', async () => {
+    ctx = createLocalProvider(policyBucket({ allowedMimeTypes: ['image/png'] }));
+    const { Readable } = require('node:stream');
+    const file = createFile({ name: 'a.png', mime: 'image/png', content: PNG });
+    delete file.buffer;
+    file.stream = Readable.from([PNG.subarray(0, 4), PNG.subarray(4)]);
+
+    await ctx.provider.uploadStream(file);
+    expect(require('node:fs').readFileSync(ctx.path('docs-bucket', file.provider_metadata.key))).toEqual(PNG);
+  });
+});
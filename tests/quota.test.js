@@ -0,0 +1,86 @@
+const { createLocalProvider, createFile } = require('./helpers');
+
+describe('usage & quotas', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  const init = (quota, options = {}) => {
+    ctx = createLocalProvider({
+      buckets: { public: { name: 'public-bucket', quota }, private: 'private-bucket' },
+      ...options
+    });
+    return ctx.provider;
+  };
+  const upload = async (path = 'bucket:public:docs') => {
+    const file = createFile({ path });
+    await ctx.provider.upload(file);
+    return file;
+  };
+
+  it('rejects uploads over the bucket quota', async () => {
+    init({ maxObjects: 2 });
+    await upload();
+    await upload();
+
+    await expect(upload()).rejects.toMatchObject({
+      name: 'PayloadTooLargeError',
+      status: 413,
+      details: { bucket: 'public', maxObjects: 2, usage: { objects: 2, bytes: 22 } }
+    });
+  });
+
+  it('gives the space back on delete and deleteMany', async () => {
+    init({ maxObjects: 2 });
+    const first = await upload();
+    const second = await upload();
+
+    await ctx.provider.delete(first);
+    await upload();
+    await ctx.provider.deleteMany([second]);
+    await expect(upload()).resolves.toBeDefined();
+  });
+
+  it('leaves trash copies out of the totals', async () => {
+    init({ maxObjects: 1 }, { trash: { prefix: '_trash' } });
+    const file = await upload();
+
+    await ctx.provider.delete(file);
+    await expect(ctx.provider.getUsage({ bucket: 'public' })).resolves.toMatchObject({ objects: 0, bytes: 0 });
+    await upload();
+
+    // Restoring brings it back into the totals
+    await ctx.provider.restore(file);
+    await expect(upload()).rejects.toMatchObject({ details: { usage: { objects: 2 } } });
+  });
+
+  it('moves usage between prefixes', async () => {
+    init({ prefixes: { 'inbox/': { maxObjects: 1 } } });
+    const file = await upload('bucket:public:inbox');
+
+    await expect(upload('bucket:public:inbox')).rejects.toMatchObject({ details: { prefix: 'inbox/' } });
+    await ctx.provider.move(file, { toPath: 'bucket:public:archive' });
+    await upload('bucket:public:inbox');
+    await expect(ctx.provider.move(file, { toPath: 'bucket:public:inbox' })).resolves.toBeUndefined();
+    await expect(upload('bucket:public:inbox')).rejects.toMatchObject({ details: { usage: { objects: 2 } } });
+  });
+
+  it('counts a replaced file once', async () => {
+    init({ maxBytes: 30 });
+    const file = await upload();
+
+    // Same hash, same key: each replace overwrites the object
+    for (let i = 0; i < 3; i++) {
+      await ctx.provider.replace(Object.assign(file, { buffer: Buffer.from('hello again'), size: 0.011 }));
+    }
+    await expect(upload()).resolves.toBeDefined();
+  });
+
+  it('keeps the tenant’s total in step with deletes', async () => {
+    init(undefined, { tenant: () => ({ prefix: 'company/1', quota: { maxObjects: 1 } }) });
+    const file = await upload();
+
+    await expect(upload()).rejects.toMatchObject({ details: { prefix: 'company/1/', maxObjects: 1 } });
+    await ctx.provider.delete(file);
+    await expect(upload()).resolves.toBeDefined();
+  });
+});
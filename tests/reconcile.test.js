@@ -0,0 +1,59 @@
+const { existsSync } = require('node:fs');
+const { createLocalProvider, createFile } = require('./helpers');
+
+describe('reconcile', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  // A known file, an orphan and a reference to a deleted object
+  const setup = async (options) => {
+    ctx = createLocalProvider(options);
+    const known = createFile({ path: 'bucket:public:a' });
+    const orphan = createFile({ path: 'bucket:public:a' });
+    const gone = createFile({ path: 'bucket:private:b' });
+    for (const file of [known, orphan, gone]) await ctx.provider.upload(file);
+    await ctx.provider.delete(gone);
+    return { known, orphan, gone };
+  };
+
+  async function* asyncFiles(files) {
+    yield* files;
+  }
+
+  it('reports orphans and missing objects without touching anything in dry-run', async () => {
+    const { known, orphan, gone } = await setup();
+
+    const report = await ctx.provider.reconcile(asyncFiles([known, gone]), { minAge: 0 });
+
+    expect(report).toMatchObject({
+      scanned: 2,
+      orphans: [{ bucket: 'public', key: orphan.provider_metadata.key, size: 11 }],
+      missing: [{ bucket: 'private', key: gone.provider_metadata.key, label: 'file.txt original' }],
+      skipped: 0,
+      deleted: 0,
+      errors: []
+    });
+    expect(existsSync(ctx.path('public-bucket', orphan.provider_metadata.key))).toBe(true);
+  });
+
+  it('skips young objects and limits the scan to the given buckets', async () => {
+    const { known } = await setup();
+
+    const report = await ctx.provider.reconcile([known.provider_metadata], { buckets: ['public'] });
+
+    expect(report).toMatchObject({ scanned: 2, orphans: [], missing: [], skipped: 1 });
+  });
+
+  it('deletes orphans in delete mode, through the trash when enabled', async () => {
+    const { known, orphan } = await setup({ trash: { prefix: '_trash' } });
+
+    const report = await ctx.provider.reconcile([known], { mode: 'delete', minAge: 0, buckets: ['public'] });
+
+    expect(report).toMatchObject({ orphans: [{ key: orphan.provider_metadata.key }], deleted: 1 });
+    expect(existsSync(ctx.path('public-bucket', orphan.provider_metadata.key))).toBe(false);
+    expect(existsSync(ctx.path('public-bucket', `_trash/public/${orphan.provider_metadata.key}`))).toBe(true);
+
+    // trash locations are not scanned
+    expect(await ctx.provider.reconcile([known], { minAge: 0, buckets: ['public'] })).toMatchObject({ scanned: 1, orphans: [] });
+  });
+});
@@ -0,0 +1,51 @@
+const { createLocalProvider, createFile } = require('./helpers');
+
+const BASE = 'http://localhost:1337/r2-local';
+
+describe('refreshUrls', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  it('recomputes the original and format urls from provider_metadata', async () => {
+    ctx = createLocalProvider();
+    const file = createFile({ path: 'bucket:public:a' });
+    const thumbnail = createFile({ hash: `thumbnail_${file.hash}`, path: 'bucket:public:a' });
+    await ctx.provider.upload(file);
+    await ctx.provider.upload(thumbnail);
+    file.formats = { thumbnail };
+
+    // publicDomains changed since the upload
+    const moved = createLocalProvider({ publicDomains: { public: 'https://cdn.example.com' } });
+    try {
+      await moved.provider.refreshUrls(file);
+    } finally {
+      moved.cleanup();
+    }
+
+    expect(file.url).toBe(`https://cdn.example.com/a/${file.hash}.txt`);
+    expect(thumbnail.url).toBe(`https://cdn.example.com/a/${thumbnail.hash}.txt`);
+  });
+
+  it('signs urls of buckets that became private and records it', async () => {
+    ctx = createLocalProvider();
+    const file = createFile({ path: 'bucket:public:a' });
+    await ctx.provider.upload(file);
+    expect(file.provider_metadata.isPrivate).toBe(false);
+
+    const privateNow = createLocalProvider({ publicDomains: {} });
+    try {
+      await privateNow.provider.refreshUrls(file);
+    } finally {
+      privateNow.cleanup();
+    }
+
+    expect(file.provider_metadata.isPrivate).toBe(true);
+    expect(file.url).toMatch(new RegExp(`^${BASE}/public/a/${file.hash}\\.txt\\?exp=\\d+&token=`));
+  });
+
+  it('rejects missing files and unknown buckets', async () => {
+    ctx = createLocalProvider();
+    await expect(ctx.provider.refreshUrls(null)).rejects.toThrow('No file provided');
+    await expect(ctx.provider.refreshUrls({ provider_metadata: { bucket: 'nope', key: 'a' } })).rejects.toThrow("Unknown bucket 'nope'");
+  });
+});
@@ -0,0 +1,83 @@
+const { existsSync, readFileSync } = require('node:fs');
+const { createLocalProvider, createFile } = require('./helpers');
+
+describe('replace and version history', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  // An uploaded original with a stored thumbnail
+  const uploadWithFormat = async () => {
+    const file = createFile({ path: 'bucket:public:docs', content: 'version one' });
+    const thumbnail = createFile({ hash: `thumbnail_${file.hash}`, name: `thumbnail_${file.name}`, path: 'bucket:public:docs' });
+    await ctx.provider.upload(file);
+    await ctx.provider.upload(thumbnail);
+    file.formats = { thumbnail };
+    return file;
+  };
+
+  // The record with new content (Strapi keeps the hash, a new one moves the object)
+  const withNewContent = (file, content, hash = file.hash) => {
+    const buffer = Buffer.from(content);
+    return Object.assign(file, { hash, buffer, size: buffer.length / 1000 });
+  };
+
+  it('uploads into the same folder, removes the old objects and the stale formats', async () => {
+    ctx = createLocalProvider({ versions: false });
+    const file = await uploadWithFormat();
+    const oldKeys = [file.provider_metadata.key, file.formats.thumbnail.provider_metadata.key];
+
+    await ctx.provider.replace(withNewContent(file, 'version two', `${file.hash}_v2`));
+
+    expect(file.provider_metadata.key).toBe(`docs/${file.hash}.txt`);
+    expect(readFileSync(ctx.path('public-bucket', file.provider_metadata.key), 'utf8')).toBe('version two');
+    for (const key of oldKeys) expect(existsSync(ctx.path('public-bucket', key))).toBe(false);
+    expect(file.formats).toBeNull();
+    expect(await ctx.provider.verify(file)).toMatchObject({ ok: true });
+  });
+
+  it('keeps the replaced content as a version that can be restored', async () => {
+    ctx = createLocalProvider({ versions: { prefix: '_versions', maxVersions: 5 } });
+    const file = await uploadWithFormat();
+    const first = { hash: file.hash, key: file.provider_metadata.key };
+
+    await ctx.provider.replace(withNewContent(file, 'version two'));
+
+    const [version] = ctx.provider.listVersions(file);
+    expect(version.original.originalKey).toBe(first.key);
+    expect(readFileSync(ctx.path('public-bucket', first.key), 'utf8')).toBe('version two');
+    expect(Object.keys(version.formats)).toEqual(['thumbnail']);
+    expect(readFileSync(ctx.path('public-bucket', version.original.key), 'utf8')).toBe('version one');
+
+    await ctx.provider.restoreVersion(file, version.id);
+
+    expect(file.provider_metadata.key).toBe(first.key);
+    expect(readFileSync(ctx.path('public-bucket', first.key), 'utf8')).toBe('version one');
+    expect(file.formats.thumbnail.provider_metadata.key).toBe(`docs/thumbnail_${first.hash}.txt`);
+    expect(ctx.provider.listVersions(file)).toHaveLength(2);
+    // etag/size of the replaced content are dropped, so the restored original is "unrecorded"
+    const { variants } = await ctx.provider.verify(file);
+    expect(variants.map((v) => [v.label, v.status])).toEqual([['original', 'unrecorded'], ['format:thumbnail', 'ok']]);
+  });
+
+  it('drops the current formats when the restored version has none', async () => {
+    ctx = createLocalProvider({ versions: { prefix: '_versions' } });
+    const file = createFile({ path: 'bucket:public:docs', content: 'version one' });
+    await ctx.provider.upload(file);
+
+    await ctx.provider.replace(withNewContent(file, 'version two'));
+    // Strapi generates formats for the new content
+    const thumbnail = createFile({ hash: `thumbnail_${file.hash}`, name: `thumbnail_${file.name}`, path: 'bucket:public:docs' });
+    await ctx.provider.upload(thumbnail);
+    file.formats = { thumbnail };
+
+    await ctx.provider.restoreVersion(file, ctx.provider.listVersions(file)[0].id);
+
+    expect(file.formats).toBeNull();
+    expect(existsSync(ctx.path('public-bucket', thumbnail.provider_metadata.key))).toBe(false);
+  });
+
+  it('refuses files without provider metadata', async () => {
+    ctx = createLocalProvider();
+    await expect(ctx.provider.replace(createFile())).rejects.toThrow('provider_metadata.bucket/key missing');
+  });
+});
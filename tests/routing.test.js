@@ -0,0 +1,71 @@
+const { createLocalProvider, createFile, PNG } = require('./helpers');
+
+const BASE = 'http://localhost:1337/r2-local';
+
+describe('bucket and folder routing', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  const init = (options = {}) => {
+    ctx = createLocalProvider({
+      buckets: { uploads: 'uploads-bucket', videos: 'videos-bucket', documents: 'documents-bucket' },
+      publicDomains: { uploads: `${BASE}/uploads`, videos: `${BASE}/videos`, documents: `${BASE}/documents` },
+      routes: [
+        { mime: 'video/*', bucket: 'videos', folder: 'media/videos' },
+        { ext: ['.pdf'], maxSize: 1000, bucket: 'documents' },
+        { folderPath: /^\/12(\/|$)/, bucket: 'documents', folder: 'internal' },
+        { match: (file) => file.name.startsWith('invoice-'), bucket: 'documents', folder: 'invoices' },
+        (file) => (file.name === 'logo.txt' ? { bucket: 'uploads', folder: 'brand' } : null)
+      ],
+      ...options
+    });
+    return ctx.provider;
+  };
+
+  const uploaded = async (overrides) => {
+    const file = createFile(overrides);
+    await ctx.provider.upload(file);
+    return file.provider_metadata;
+  };
+
+  it('routes by mime, extension and size', async () => {
+    init();
+    expect(await uploaded({ name: 'clip.mp4', mime: 'video/mp4', content: Buffer.from([0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70]) }))
+      .toMatchObject({ bucket: 'videos', key: expect.stringMatching(/^media\/videos\/clip_/) });
+    expect(await uploaded({ name: 'a.pdf', mime: 'application/pdf', content: '%PDF-1.7' })).toMatchObject({ bucket: 'documents' });
+    // too large for the pdf rule: falls through to the first bucket
+    expect(await uploaded({ name: 'b.pdf', mime: 'application/pdf', content: `%PDF-1.7${' '.repeat(2000)}` }))
+      .toMatchObject({ bucket: 'uploads' });
+  });
+
+  it('routes by Strapi folder path, match() and plain functions', async () => {
+    init();
+    expect(await uploaded({ name: 'a.txt', folderPath: '/12/3' })).toMatchObject({ bucket: 'documents', key: expect.stringMatching(/^internal\//) });
+    expect(await uploaded({ name: 'a.txt', folderPath: '/123' })).toMatchObject({ bucket: 'uploads' });
+    expect(await uploaded({ name: 'invoice-1.txt' })).toMatchObject({ bucket: 'documents', key: expect.stringMatching(/^invoices\//) });
+    expect(await uploaded({ name: 'logo.txt' })).toMatchObject({ bucket: 'uploads', key: expect.stringMatching(/^brand\//) });
+  });
+
+  it('sends Strapi’s formats where their original went', async () => {
+    init();
+    const original = createFile({ name: 'cat.png', mime: 'image/png', content: PNG, folderPath: '/12' });
+    // Formats: no folderPath, another name and size
+    const thumbnail = createFile({ name: 'thumbnail_cat.png', hash: `thumbnail_${original.hash}`, mime: 'image/png', content: PNG });
+    await ctx.provider.upload(original);
+    await ctx.provider.upload(thumbnail);
+
+    expect(original.provider_metadata).toMatchObject({ bucket: 'documents', key: `internal/${original.hash}.png` });
+    expect(thumbnail.provider_metadata).toMatchObject({ bucket: 'documents', key: `internal/thumbnail_${original.hash}.png` });
+  });
+
+  it('lets an explicit bucket: path win over the routing table', async () => {
+    init();
+    expect(await uploaded({ name: 'clip.txt', mime: 'video/mp4', content: Buffer.from([0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70]), path: 'bucket:uploads:raw' }))
+      .toMatchObject({ bucket: 'uploads', key: expect.stringMatching(/^raw\//) });
+  });
+
+  it('falls back to defaultBucket when no rule matches', async () => {
+    init({ defaultBucket: 'documents' });
+    expect(await uploaded({ name: 'a.txt' })).toMatchObject({ bucket: 'documents' });
+  });
+});
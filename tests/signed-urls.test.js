@@ -0,0 +1,61 @@
+const { provider, createFile, S3_OPTIONS } = require('./helpers');
+
+describe('signed URLs', () => {
+  beforeEach(() => jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] }));
+  afterEach(() => jest.useRealTimers());
+
+  const init = (options = {}) =>
+    provider.init({
+      ...S3_OPTIONS,
+      buckets: { uploads: 'uploads-bucket', private: 'private-bucket' },
+      publicDomains: { uploads: 'https://cdn.example.com' },
+      signedUrlExpires: 600,
+      ...options
+    });
+
+  const privateFile = () => ({ ...createFile({ name: 'Invoice 1.pdf' }), provider_metadata: { bucket: 'private', key: 'inv/a.pdf', isPrivate: true } });
+
+  it('signs private files and returns public urls unchanged', async () => {
+    const r2 = init();
+    const { url } = await r2.getSignedUrl(privateFile());
+    expect(url).toMatch(/^https:\/\/private-bucket\.account\.r2\.cloudflarestorage\.com\/inv\/a\.pdf\?.*X-Amz-Expires=600/);
+
+    const file = { ...createFile(), url: 'https://cdn.example.com/a.txt', provider_metadata: { bucket: 'uploads', key: 'a.txt' } };
+    expect(await r2.getSignedUrl(file)).toEqual({ url: 'https://cdn.example.com/a.txt' });
+  });
+
+  it('signs response header overrides into the url', async () => {
+    const { url } = await init().getSignedUrl(privateFile(), {
+      download: true,
+      responseContentType: 'application/pdf',
+      responseCacheControl: 'private, max-age=600'
+    });
+    const params = new URL(url).searchParams;
+
+    expect(params.get('response-content-disposition')).toBe('attachment; filename="Invoice 1.pdf"; filename*=UTF-8\'\'Invoice%201.pdf');
+    expect(params.get('response-content-type')).toBe('application/pdf');
+    expect(params.get('response-cache-control')).toBe('private, max-age=600');
+  });
+
+  it('reuses cached urls until little lifetime is left', async () => {
+    const r2 = init();
+    const first = (await r2.getSignedUrl(privateFile())).url;
+
+    jest.setSystemTime(new Date('2026-01-01T00:07:00Z'));
+    expect((await r2.getSignedUrl(privateFile())).url).toBe(first);
+    expect((await r2.getSignedUrl(privateFile(), { cache: false })).url).not.toBe(first);
+    // other options are cached separately
+    expect((await r2.getSignedUrl(privateFile(), { download: true })).url).not.toBe(first);
+
+    // less than 20% of 600s left
+    jest.setSystemTime(new Date('2026-01-01T00:08:30Z'));
+    expect((await r2.getSignedUrl(privateFile())).url).not.toBe(first);
+  });
+
+  it('can be turned off', async () => {
+    const r2 = init({ signedUrlCache: false });
+    const first = (await r2.getSignedUrl(privateFile())).url;
+    jest.setSystemTime(new Date('2026-01-01T00:00:05Z'));
+    expect((await r2.getSignedUrl(privateFile())).url).not.toBe(first);
+  });
+});
@@ -0,0 +1,75 @@
+const { existsSync } = require('node:fs');
+const { createLocalProvider, createFile, PNG, LOCAL_BASE_URL } = require('./helpers');
+
+describe('tenant isolation', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  // The "current request" the resolver looks at
+  let scope;
+  const init = (options = {}) => {
+    ctx = createLocalProvider({
+      buckets: {
+        public: { name: 'public-bucket', imageResizing: { synthesizeFormats: true } },
+        private: 'private-bucket',
+        internal: 'internal-bucket'
+      },
+      tenant: () => scope,
+      ...options
+    });
+    return ctx.provider;
+  };
+
+  beforeEach(() => {
+    scope = { prefix: 'company/1', buckets: ['public', 'private'] };
+  });
+
+  it('prefixes keys with the tenant folder', async () => {
+    init();
+    const file = createFile({ path: 'bucket:public:logos' });
+    await ctx.provider.upload(file);
+
+    expect(file.provider_metadata.key).toBe(`company/1/logos/${file.hash}.txt`);
+    expect(existsSync(ctx.path('public-bucket', file.provider_metadata.key))).toBe(true);
+  });
+
+  it('refuses buckets outside the scope and path traversal', async () => {
+    init();
+    await expect(ctx.provider.upload(createFile({ path: 'bucket:internal:x' }))).rejects.toMatchObject({ name: 'ForbiddenError', status: 403 });
+    await expect(ctx.provider.upload(createFile({ path: 'bucket:public:../2/logos' }))).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('keeps moves and replaces inside the prefix', async () => {
+    init();
+    const file = createFile({ path: 'bucket:public:a' });
+    await ctx.provider.upload(file);
+
+    await ctx.provider.move(file, { toPath: 'bucket:private:archive' });
+    expect(file.provider_metadata).toMatchObject({ bucket: 'private', key: `company/1/archive/${file.hash}.txt` });
+
+    scope = { prefix: 'company/2' };
+    await expect(ctx.provider.move(file, { toPath: 'bucket:public:stolen' })).rejects.toMatchObject({ status: 403 });
+    await expect(ctx.provider.replace(file)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('does not restrict callers the resolver returns null for', async () => {
+    init();
+    scope = null;
+    const file = createFile({ path: 'bucket:internal:x' });
+    await ctx.provider.upload(file);
+
+    expect(file.provider_metadata).toMatchObject({ bucket: 'internal', key: `x/${file.hash}.txt` });
+  });
+
+  it('points synthesized formats at the prefixed original', async () => {
+    init();
+    const original = createFile({ name: 'cat.png', mime: 'image/png', content: PNG, path: 'bucket:public:x' });
+    const thumbnail = createFile({ name: 'thumbnail_cat.png', hash: `thumbnail_${original.hash}`, mime: 'image/png', content: PNG, path: 'bucket:public:x', width: 10 });
+
+    await Promise.all([ctx.provider.upload(original), ctx.provider.upload(thumbnail)]);
+
+    expect(original.provider_metadata.key).toBe(`company/1/x/${original.hash}.png`);
+    expect(thumbnail.provider_metadata).toMatchObject({ key: `company/1/x/${original.hash}.png`, synthesized: true });
+    expect(thumbnail.url).toBe(`${LOCAL_BASE_URL}/public/cdn-cgi/image/width=10,fit=scale-down/company/1/x/${original.hash}.png`);
+  });
+});
@@ -0,0 +1,61 @@
+const { provider, createFile } = require('./helpers');
+
+const SECRET = 'token-secret';
+const NOW = 1_800_000_000;
+
+describe('token-authenticated urls', () => {
+  const init = (format) =>
+    provider.init({
+      endpoint: 'https://account.r2.cloudflarestorage.com',
+      credentials: { accessKeyId: 'k', secretAccessKey: 's' },
+      buckets: {
+        invoices: {
+          name: 'invoices-bucket',
+          tokenAuth: { domain: 'https://private.example.com', secret: SECRET, expiresIn: 900, ...(format ? { format } : {}) }
+        }
+      }
+    });
+
+  const signed = async (format) => {
+    jest.useFakeTimers({ now: NOW * 1000, doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      const file = { ...createFile(), provider_metadata: { bucket: 'invoices', key: 'inv/a b.pdf', isPrivate: true } };
+      return (await init(format).getSignedUrl(file)).url;
+    } finally {
+      jest.useRealTimers();
+    }
+  };
+
+  it('issues expiring tokens on the custom domain', async () => {
+    const url = await signed();
+    expect(url).toMatch(/^https:\/\/private\.example\.com\/inv\/a%20b\.pdf\?exp=1800000900&token=[\w-]+$/);
+
+    expect(provider.verifyToken(url, SECRET, { now: NOW + 900 })).toBe(true);
+    expect(provider.verifyToken(url, SECRET, { now: NOW + 901 })).toBe(false);
+    expect(provider.verifyToken(url, 'other-secret', { now: NOW })).toBe(false);
+    expect(provider.verifyToken(url.replace('a%20b', 'c'), SECRET, { now: NOW })).toBe(false);
+    expect(provider.verifyToken(url.replace('exp=1800000900', 'exp=1900000000'), SECRET, { now: NOW })).toBe(false);
+  });
+
+  it('issues cloudflare-waf tokens checked against maxAge', async () => {
+    const url = await signed('cloudflare-waf');
+    expect(new URL(url).searchParams.get('verify')).toMatch(/^1800000000-/);
+
+    const options = { format: 'cloudflare-waf', maxAge: 900 };
+    expect(provider.verifyToken(url, SECRET, { ...options, now: NOW + 900 })).toBe(true);
+    expect(provider.verifyToken(url, SECRET, { ...options, now: NOW + 901 })).toBe(false);
+    expect(provider.verifyToken(url, SECRET, { ...options, now: NOW - 1 })).toBe(false);
+    expect(provider.verifyToken(url, 'other-secret', { ...options, now: NOW })).toBe(false);
+  });
+
+  it('rejects cloudflare-waf tokens without maxAge', async () => {
+    const url = await signed('cloudflare-waf');
+    expect(provider.verifyToken(url, SECRET, { format: 'cloudflare-waf', now: NOW })).toBe(false);
+  });
+
+  it('rejects malformed input', () => {
+    expect(provider.verifyToken('not a url', SECRET)).toBe(false);
+    expect(provider.verifyToken('https://private.example.com/a.pdf', SECRET)).toBe(false);
+    expect(provider.verifyToken('https://private.example.com/a.pdf?verify=abc', SECRET, { format: 'cloudflare-waf', maxAge: 60 })).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+const { existsSync, readFileSync, rmSync } = require('node:fs');
+const { createLocalProvider, createFile } = require('./helpers');
+
+describe('trash', () => {
+  let ctx;
+  afterEach(() => ctx.cleanup());
+
+  const uploadWithFormat = async () => {
+    const file = createFile({ path: 'bucket:public:docs' });
+    const thumbnail = createFile({ hash: `thumbnail_${file.hash}`, path: 'bucket:public:docs' });
+    await ctx.provider.upload(file);
+    await ctx.provider.upload(thumbnail);
+    file.formats = { thumbnail };
+    return file;
+  };
+
+  it('moves deleted objects into the trash and restores them', async () => {
+    ctx = createLocalProvider({ trash: { prefix: '_trash', retentionDays: 30 } });
+    const file = await uploadWithFormat();
+    const key = file.provider_metadata.key;
+
+    await ctx.provider.delete(file);
+
+    expect(existsSync(ctx.path('public-bucket', key))).toBe(false);
+    expect(readFileSync(ctx.path('public-bucket', `_trash/public/${key}`), 'utf8')).toBe('hello world');
+    expect(existsSync(ctx.path('public-bucket', `_trash/public/docs/thumbnail_${file.hash}.txt`))).toBe(true);
+
+    await ctx.provider.restore(file);
+
+    expect(readFileSync(ctx.path('public-bucket', key), 'utf8')).toBe('hello world');
+    expect(existsSync(ctx.path('public-bucket', `docs/thumbnail_${file.hash}.txt`))).toBe(true);
+    expect(existsSync(ctx.path('public-bucket', `_trash/public/${key}`))).toBe(false);
+  });
+
+  it('uses a separate trash bucket and honours opt-outs', async () => {
+    ctx = createLocalProvider({
+      trash: { prefix: '_trash' },
+      buckets: {
+        public: { name: 'public-bucket', trash: { bucket: 'bin' } },
+        cache: { name: 'cache-bucket', trash: false },
+        bin: 'bin-bucket'
+      },
+      publicDomains: {}
+    });
+    const kept = createFile({ path: 'bucket:public:a' });
+    const dropped = createFile({ path: 'bucket:cache:a' });
+    await ctx.provider.upload(kept);
+    await ctx.provider.upload(dropped);
+
+    await ctx.provider.delete(kept);
+    await ctx.provider.delete(dropped);
+
+    expect(existsSync(ctx.path('bin-bucket', `_trash/public/${kept.provider_metadata.key}`))).toBe(true);
+    expect(existsSync(ctx.path('cache-bucket', `_trash/cache/${dropped.provider_metadata.key}`))).toBe(false);
+  });
+
+  it('purges trashed objects older than the cutoff', async () => {
+    ctx = createLocalProvider({ trash: { prefix: '_trash', retentionDays: 30 } });
+    const file = await uploadWithFormat();
+    await ctx.provider.delete(file);
+
+    expect(await ctx.provider.purgeTrash()).toEqual({ deleted: 0, errors: [] });
+    expect(await ctx.provider.purgeTrash({ olderThan: new Date(Date.now() + 60_000) })).toEqual({ deleted: 2, errors: [] });
+    expect(existsSync(ctx.path('public-bucket', `_trash/public/${file.provider_metadata.key}`))).toBe(false);
+  });
+
+  it('deletes files whose objects are already gone', async () => {
+    ctx = createLocalProvider({ trash: { prefix: '_trash' } });
+    const single = await uploadWithFormat();
+    const batch = await uploadWithFormat();
+    for (const file of [single, batch]) rmSync(ctx.path('public-bucket', file.provider_metadata.key));
+
+    await expect(ctx.provider.delete(single)).resolves.toBeDefined();
+    expect(await ctx.provider.deleteMany([batch])).toEqual([{ file: batch, success: true }]);
+
+    // The formats that were still there went to the trash
+    expect(existsSync(ctx.path('public-bucket', `_trash/public/docs/thumbnail_${single.hash}.txt`))).toBe(true);
+    expect(existsSync(ctx.path('public-bucket', `_trash/public/${single.provider_metadata.key}`))).toBe(false);
+  });
+});
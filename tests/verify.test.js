@@ -0,0 +1,65 @@
+const { writeFileSync, rmSync } = require('node:fs');
+const { createHash } = require('node:crypto');
+const { createLocalProvider, createFile, mockS3, provider, S3_OPTIONS } = require('./helpers');
+
+describe('checksums and verify()', () => {
+  describe('on the local driver', () => {
+    let ctx;
+    afterEach(() => ctx.cleanup());
+
+    const upload = async () => {
+      ctx = createLocalProvider({ checksum: 'SHA256' });
+      const file = createFile({ path: 'bucket:public:a' });
+      await ctx.provider.upload(file);
+      return file;
+    };
+
+    it('records etag, size and checksum and verifies them', async () => {
+      const file = await upload();
+
+      expect(file.provider_metadata).toMatchObject({
+        size: 11,
+        etag: expect.any(String),
+        checksum: { algorithm: 'SHA256', value: createHash('sha256').update('hello world').digest('base64') }
+      });
+      expect(await ctx.provider.verify(file, { deep: true })).toEqual({
+        ok: true,
+        variants: [{ label: 'original', bucket: 'public', key: file.provider_metadata.key, status: 'ok' }]
+      });
+    });
+
+    it('reports missing objects and size changes', async () => {
+      const file = await upload();
+      const path = ctx.path('public-bucket', file.provider_metadata.key);
+
+      writeFileSync(path, 'hello world, again');
+      expect((await ctx.provider.verify(file)).variants[0]).toMatchObject({ status: 'size-mismatch', expected: 11, actual: 18 });
+
+      rmSync(path);
+      expect(await ctx.provider.verify(file)).toMatchObject({ ok: false, variants: [{ status: 'missing' }] });
+    });
+
+    it('recomputes the checksum with deep', async () => {
+      const file = await upload();
+      writeFileSync(ctx.path('public-bucket', file.provider_metadata.key), 'HELLO WORLD');
+      const { etag, ...meta } = file.provider_metadata;
+      file.provider_metadata = meta;
+
+      expect((await ctx.provider.verify(file)).ok).toBe(true);
+      expect((await ctx.provider.verify(file, { deep: true })).variants[0]).toMatchObject({ status: 'checksum-mismatch' });
+    });
+  });
+
+  it('sends the checksum algorithm to R2', async () => {
+    const s3 = mockS3((command) => (command.constructor.name === 'PutObjectCommand' ? { ETag: '"e"' } : {}));
+    try {
+      const file = createFile();
+      await provider.init({ ...S3_OPTIONS, buckets: { uploads: 'uploads-bucket' }, checksum: 'CRC32C' }).upload(file);
+
+      expect(s3.calls.find((call) => call.name === 'PutObjectCommand').input.ChecksumAlgorithm).toBe('CRC32C');
+      expect(file.provider_metadata).toMatchObject({ etag: '"e"', size: 11, checksum: { algorithm: 'CRC32C' } });
+    } finally {
+      s3.restore();
+    }
+  });
+});